@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import { FluidMaskScene, FluidMaskConfig } from "@/components/fluid-reveal";
+import { FluidMaskScene, FluidMaskConfig, defaultFluidMaskConfig } from "@/components/fluid-reveal";
 
 const TECH_TERMS = [
   "Kafka", "Spark", "Ray", "AWS", "EC2", "Kubernetes", "Terraform",
@@ -16,10 +16,13 @@ const TECH_TERMS = [
 
 // Default config - tuned for fluid reveal effect
 const DEFAULT_CONFIG: FluidMaskConfig = {
+  ...defaultFluidMaskConfig,
   // Visual
-  radius: 0.03,
-  strength: 0.45,
-  dissipation: 8,
+  splatRadius: 3,
+  colorR: 0.45,
+  colorG: 0.45,
+  colorB: 0.45,
+  densityDissipation: 8,
   backgroundColor: [0.039, 0.039, 0.039],
   // Physics
   curl: 30,
@@ -32,11 +35,17 @@ const DEFAULT_CONFIG: FluidMaskConfig = {
 export default function FluidTestClient() {
   const [showDebug, setShowDebug] = useState(true);
   const [config, setConfig] = useState<FluidMaskConfig>(DEFAULT_CONFIG);
+  const [qualityTier, setQualityTier] = useState<number | null>(null);
 
-  const updateConfig = useCallback((key: keyof FluidMaskConfig, value: number | [number, number, number]) => {
+  const updateConfig = useCallback((key: keyof FluidMaskConfig, value: number | boolean | [number, number, number]) => {
     setConfig(prev => ({ ...prev, [key]: value }));
   }, []);
 
+  // Dye is grey, so strength drives all three channels together
+  const updateStrength = useCallback((value: number) => {
+    setConfig(prev => ({ ...prev, colorR: value, colorG: value, colorB: value }));
+  }, []);
+
   const resetConfig = useCallback(() => {
     setConfig(DEFAULT_CONFIG);
   }, []);
@@ -70,6 +79,7 @@ export default function FluidTestClient() {
           config={config}
           overlayText="UNBOUND"
           overlaySubtext="Move your cursor to reveal"
+          onQualityChange={(tier) => setQualityTier(tier)}
         />
       </div>
 
@@ -100,15 +110,15 @@ export default function FluidTestClient() {
             
             <div className="mb-3">
               <label className="block text-xs text-white/60 mb-1">
-                Brush Radius: {config.radius.toFixed(3)}
+                Brush Radius: {config.splatRadius.toFixed(1)}
               </label>
               <input
                 type="range"
-                min="0.01"
-                max="0.2"
-                step="0.005"
-                value={config.radius}
-                onChange={(e) => updateConfig("radius", parseFloat(e.target.value))}
+                min="1"
+                max="20"
+                step="0.5"
+                value={config.splatRadius}
+                onChange={(e) => updateConfig("splatRadius", parseFloat(e.target.value))}
                 className="w-full accent-white"
               />
               <span className="text-[10px] text-white/30">Size of the brush stroke</span>
@@ -116,15 +126,15 @@ export default function FluidTestClient() {
 
             <div className="mb-3">
               <label className="block text-xs text-white/60 mb-1">
-                Strength: {config.strength.toFixed(2)}
+                Strength: {config.colorR.toFixed(2)}
               </label>
               <input
                 type="range"
                 min="0.1"
                 max="1.0"
                 step="0.05"
-                value={config.strength}
-                onChange={(e) => updateConfig("strength", parseFloat(e.target.value))}
+                value={config.colorR}
+                onChange={(e) => updateStrength(parseFloat(e.target.value))}
                 className="w-full accent-white"
               />
               <span className="text-[10px] text-white/30">How much dye is added per stroke</span>
@@ -132,15 +142,15 @@ export default function FluidTestClient() {
 
             <div className="mb-3">
               <label className="block text-xs text-white/60 mb-1">
-                Dye Dissipation: {config.dissipation.toFixed(3)}
+                Dye Dissipation: {config.densityDissipation.toFixed(3)}
               </label>
               <input
                 type="range"
                 min="0"
                 max="50"
                 step="0.5"
-                value={config.dissipation}
-                onChange={(e) => updateConfig("dissipation", parseFloat(e.target.value))}
+                value={config.densityDissipation}
+                onChange={(e) => updateConfig("densityDissipation", parseFloat(e.target.value))}
                 className="w-full accent-white"
               />
               <span className="text-[10px] text-white/30">Higher = faster fade, 0 = permanent</span>
@@ -235,6 +245,19 @@ export default function FluidTestClient() {
               />
               <span className="text-[10px] text-white/30">Higher = more detail, more GPU</span>
             </div>
+
+            <div className="mb-3">
+              <label className="flex items-center gap-2 text-xs text-white/60">
+                <input
+                  type="checkbox"
+                  checked={config.adaptiveQuality}
+                  onChange={(e) => updateConfig("adaptiveQuality", e.target.checked)}
+                  className="accent-white"
+                />
+                Adaptive Quality{config.adaptiveQuality && qualityTier !== null ? ` (tier ${qualityTier})` : ""}
+              </label>
+              <span className="text-[10px] text-white/30">Overrides resolution and iterations by frame time</span>
+            </div>
           </div>
 
           <p className="text-[11px] text-white/40 m-0 pt-2 border-t border-white/10">
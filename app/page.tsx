@@ -35,35 +35,54 @@ function hexToRgb(hex: string): [number, number, number] {
 
 function FluidScratchHero() {
   const [isReady, setIsReady] = useState(false);
+  const [contextLost, setContextLost] = useState(false);
   const { resolvedTheme } = useTheme();
   
   // Get theme colors from CSS variables - recompute when theme changes
-  const fluidConfig = useMemo<FluidMaskConfig>(() => {
+  const fluidConfig = useMemo<Partial<FluidMaskConfig>>(() => {
     if (typeof window === "undefined") {
       return {
-        radius: 0.01,
-        strength: 0.45,
-        dissipation: 6.5,
+        splatRadius: 1,
+        colorR: 0.45,
+        colorG: 0.45,
+        colorB: 0.45,
+        densityDissipation: 6.5,
         backgroundColor: [0.039, 0.039, 0.039],
         curl: 30,
         velocityDissipation: 0.85,
         splatForce: 13500,
         pressureIterations: 40,
         simResolution: 128,
+        adaptiveQuality: true,
+        minQualityTier: 1,
+        maxQualityTier: 3,
+        attractMode: true,
       };
     }
     const styles = getComputedStyle(document.documentElement);
     const bgColor = styles.getPropertyValue("--background").trim();
+    const dark = resolvedTheme !== "light";
     return {
-      radius: 0.01,
-      strength: 0.45,
-      dissipation: 6.5,
+      splatRadius: 1,
+      colorR: 0.45,
+      colorG: 0.45,
+      colorB: 0.45,
+      densityDissipation: 6.5,
       backgroundColor: hexToRgb(bgColor),
       curl: 30,
       velocityDissipation: 0.85,
       splatForce: 13500,
       pressureIterations: 40,
       simResolution: 128,
+      adaptiveQuality: true,
+      minQualityTier: 1,
+      maxQualityTier: 3,
+      attractMode: true,
+      // Dark theme: the scratched edge glows; the light theme stays flat
+      bloom: dark,
+      bloomThreshold: 0.3,
+      bloomIntensity: 0.6,
+      dithering: dark,
     };
   }, [resolvedTheme]);
   
@@ -96,15 +115,30 @@ function FluidScratchHero() {
         ))}
       </div>
 
-      {/* Layer 2: FluidMaskScene - WebGL canvas with UNBOUND, scratch to reveal */}
+      {/* Layer 2: FluidMaskScene - WebGL canvas with UNBOUND, scratch to reveal.
+          Theme changes crossfade inside the scene, keeping the scratched state */}
       <div className="absolute inset-0 z-10">
         <FluidMaskScene 
-          key={resolvedTheme}
           config={fluidConfig}
           overlayText="UNBOUND"
+          snapshotKey="fluid-hero"
+          poster={
+            <div className="flex h-full w-full items-center justify-center bg-background">
+              <span className="font-display text-6xl md:text-8xl">UNBOUND</span>
+            </div>
+          }
           onReady={() => setIsReady(true)}
+          onContextLost={() => setContextLost(true)}
+          onContextRestored={() => setContextLost(false)}
         />
       </div>
+
+      {/* Layer 3: Static fallback while the GPU context is being restored */}
+      {contextLost && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-background">
+          <span className="font-display text-6xl md:text-8xl">UNBOUND</span>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,36 +1,110 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState, ReactNode } from "react";
 import { FluidSimulation, FluidConfig, defaultConfig } from "./FluidSimulation";
+import { useFluidVisibility, useThemeVersion } from "./visibility";
+import { applyThemeColors } from "./colors";
+import { detectFluidRenderer } from "./capabilities";
+import { FluidController, FluidWorkerClient, supportsOffscreenFluid } from "./FluidWorker";
 
 interface FluidCanvasProps {
   className?: string;
   config?: Partial<FluidConfig>;
+  // Receives the running simulation, e.g. to script splats and emitters. In
+  // offscreen mode this is a proxy that forwards the calls to the worker.
+  onReady?: (simulation: FluidController) => void;
+  onContextLost?: () => void;
+  onContextRestored?: () => void;
+  // Rendered in place of the canvas when WebGL is unavailable or fails to
+  // start; defaults to a static glow in the dye colour, null renders nothing
+  fallback?: ReactNode;
+  // Runs the simulation in a Web Worker on an OffscreenCanvas. Browsers
+  // without OffscreenCanvas, or whose worker cannot get WebGL, use the main thread.
+  // The worker only takes FluidController calls: snapshots and input
+  // recording or replay are not available in this mode.
+  offscreen?: boolean;
 }
 
-export function FluidCanvas({ className = "", config = {} }: FluidCanvasProps) {
+// Stands in for the fluid so the component is never an empty box
+function StaticFluidFallback({ config }: { config: Partial<FluidConfig> }) {
+  const { colorR, colorG, colorB } = { ...defaultConfig, ...config };
+  const color = [colorR, colorG, colorB].map((channel) => Math.round(Math.min(1, channel) * 255)).join(", ");
+  return (
+    <div
+      aria-hidden
+      style={{
+        width: "100%",
+        height: "100%",
+        background: `radial-gradient(circle at 50% 50%, rgba(${color}, 0.35), rgba(${color}, 0) 70%)`,
+      }}
+    />
+  );
+}
+
+export function FluidCanvas({
+  className = "",
+  config = {},
+  onReady,
+  onContextLost,
+  onContextRestored,
+  fallback,
+  offscreen = false,
+}: FluidCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const simulationRef = useRef<FluidSimulation | null>(null);
+  const simulationRef = useRef<FluidController | null>(null);
+  const [failed, setFailed] = useState(false);
+  // A transferred canvas cannot be used on the page again, so falling back
+  // from the worker remounts the canvas through its key
+  const [workerMode, setWorkerMode] = useState(() => offscreen && supportsOffscreenFluid());
   const configRef = useRef(config);
+  const onReadyRef = useRef(onReady);
+  const onContextLostRef = useRef(onContextLost);
+  const onContextRestoredRef = useRef(onContextRestored);
 
-  // Keep config ref updated
+  // Paused while the tab is hidden, offscreen or covered
+  const visible = useFluidVisibility(containerRef);
+  const visibleRef = useRef(visible);
+  visibleRef.current = visible;
+  const themeVersion = useThemeVersion();
+
+  // Keep config and callback refs updated
   configRef.current = config;
+  onReadyRef.current = onReady;
+  onContextLostRef.current = onContextLost;
+  onContextRestoredRef.current = onContextRestored;
 
-  // Initialize simulation once
+  // Initialize simulation once per execution mode
   useEffect(() => {
     const container = containerRef.current;
     const canvas = canvasRef.current;
     if (!container || !canvas) return;
+    const renderer = detectFluidRenderer();
+    if (renderer !== "webgl2" && renderer !== "webgl") {
+      setFailed(true);
+      return;
+    }
 
     let mounted = true;
+    let simulation: FluidSimulation | null = null;
+    let worker: FluidWorkerClient | null = null;
+
+    // Drawing buffer size; kept here because a transferred canvas does not
+    // reflect size changes made in the worker
+    const size = { width: 0, height: 0 };
 
     // Set canvas size
     const resizeCanvas = () => {
       const rect = container.getBoundingClientRect();
       if (rect.width === 0 || rect.height === 0) return false;
-      canvas.width = Math.floor(rect.width);
-      canvas.height = Math.floor(rect.height);
+      size.width = Math.floor(rect.width);
+      size.height = Math.floor(rect.height);
+      if (worker) {
+        worker.resize(size.width, size.height);
+      } else {
+        canvas.width = size.width;
+        canvas.height = size.height;
+      }
       return true;
     };
 
@@ -38,26 +112,26 @@ export function FluidCanvas({ className = "", config = {} }: FluidCanvasProps) {
     const handlePointerMove = (e: PointerEvent) => {
       if (!simulationRef.current || !canvas) return;
       const rect = canvas.getBoundingClientRect();
-      const scaleX = canvas.width / rect.width;
-      const scaleY = canvas.height / rect.height;
+      const scaleX = size.width / rect.width;
+      const scaleY = size.height / rect.height;
       const x = (e.clientX - rect.left) * scaleX;
       const y = (e.clientY - rect.top) * scaleY;
-      simulationRef.current.updatePointerMoveData(x, y);
+      simulationRef.current.updatePointerMoveData(e.pointerId, x, y);
     };
 
     const handlePointerDown = (e: PointerEvent) => {
       if (!simulationRef.current || !canvas) return;
       const rect = canvas.getBoundingClientRect();
-      const scaleX = canvas.width / rect.width;
-      const scaleY = canvas.height / rect.height;
+      const scaleX = size.width / rect.width;
+      const scaleY = size.height / rect.height;
       const x = (e.clientX - rect.left) * scaleX;
       const y = (e.clientY - rect.top) * scaleY;
-      simulationRef.current.updatePointerDownData(x, y);
+      simulationRef.current.updatePointerDownData(e.pointerId, x, y);
     };
 
-    const handlePointerUp = () => {
+    const handlePointerUp = (e: PointerEvent) => {
       if (!simulationRef.current) return;
-      simulationRef.current.updatePointerUpData();
+      simulationRef.current.updatePointerUpData(e.pointerId);
     };
 
     // Initialize after a short delay for layout
@@ -69,23 +143,46 @@ export function FluidCanvas({ className = "", config = {} }: FluidCanvasProps) {
         return;
       }
 
+      const mergedConfig = applyThemeColors({ ...defaultConfig, ...configRef.current });
+      const callbacks = {
+        onContextLost: () => onContextLostRef.current?.(),
+        onContextRestored: () => onContextRestoredRef.current?.(),
+      };
+
+      if (workerMode) {
+        const client = new FluidWorkerClient(canvas, mergedConfig, visibleRef.current, {
+          ...callbacks,
+          onReady: () => onReadyRef.current?.(client),
+          onError: (message) => {
+            console.warn("Fluid worker failed, falling back to the main thread:", message);
+            if (mounted) setWorkerMode(false);
+          },
+        });
+        worker = client;
+        simulationRef.current = client;
+        return;
+      }
+
       try {
-        const mergedConfig = { ...defaultConfig, ...configRef.current };
         console.log("Creating FluidSimulation with config:", mergedConfig);
         console.log("Canvas size:", canvas.width, "x", canvas.height);
         
-        simulationRef.current = new FluidSimulation(canvas, mergedConfig);
-        simulationRef.current.start();
+        simulation = new FluidSimulation(canvas, mergedConfig, callbacks);
+        simulationRef.current = simulation;
+        simulation.start();
+        if (!visibleRef.current) simulation.stop();
         console.log("Fluid simulation started successfully");
+        onReadyRef.current?.(simulation);
       } catch (error) {
         console.error("Failed to initialize fluid simulation:", error);
+        setFailed(true);
       }
     }, 100);
 
     // Handle resize
     const resizeObserver = new ResizeObserver(() => {
-      if (resizeCanvas() && simulationRef.current) {
-        simulationRef.current.resize();
+      if (resizeCanvas() && simulation) {
+        simulation.resize();
       }
     });
     resizeObserver.observe(container);
@@ -94,36 +191,49 @@ export function FluidCanvas({ className = "", config = {} }: FluidCanvasProps) {
     window.addEventListener("pointermove", handlePointerMove);
     window.addEventListener("pointerdown", handlePointerDown);
     window.addEventListener("pointerup", handlePointerUp);
+    window.addEventListener("pointercancel", handlePointerUp);
 
     return () => {
       mounted = false;
       clearTimeout(initTimeout);
-      simulationRef.current?.stop();
+      simulationRef.current?.dispose();
       simulationRef.current = null;
       resizeObserver.disconnect();
       window.removeEventListener("pointermove", handlePointerMove);
       window.removeEventListener("pointerdown", handlePointerDown);
       window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handlePointerUp);
     };
-  }, []); // Empty deps - only run once
+  }, [workerMode]);
+
+  useEffect(() => {
+    if (visible) {
+      simulationRef.current?.resume();
+    } else {
+      simulationRef.current?.stop();
+    }
+  }, [visible]);
 
-  // Update config without reinitializing
+  // Update config without reinitializing; "theme" colours follow the theme
   useEffect(() => {
     if (simulationRef.current) {
-      simulationRef.current.updateConfig(config);
+      simulationRef.current.updateConfig(applyThemeColors(config));
     }
-  }, [config]);
+  }, [config, themeVersion]);
 
   return (
     <div ref={containerRef} className={`${className}`} style={{ width: "100%", height: "100%" }}>
-      <canvas
-        ref={canvasRef}
-        style={{
-          width: "100%",
-          height: "100%",
-          display: "block",
-        }}
-      />
+      {failed ? (fallback ?? <StaticFluidFallback config={config} />) : (
+        <canvas
+          key={workerMode ? "worker" : "main"}
+          ref={canvasRef}
+          style={{
+            width: "100%",
+            height: "100%",
+            display: "block",
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useRef, useState, ReactNode } from "react";
+import { createSpotlightHole } from "./capabilities";
+import { OverlayContent, drawOverlay } from "./overlay";
+import { useThemeVersion } from "./visibility";
+
+interface FluidMaskFallbackProps {
+  className?: string;
+  // "css" cuts a spotlight into the cover that follows the pointer, like
+  // ScratchReveal; "static" shows the poster, or the cover as-is
+  mode: "css" | "static";
+  overlay?: OverlayContent | null;
+  children?: ReactNode;
+  poster?: ReactNode;
+  onReady?: () => void;
+}
+
+const SPOTLIGHT_RADIUS = 160;
+
+/**
+ * Covering layer for FluidMaskScene without WebGL. Children are shown as real
+ * DOM; overlay content is drawn into a 2D canvas the same way as the texture.
+ */
+export function FluidMaskFallback({
+  className = "",
+  mode,
+  overlay,
+  children,
+  poster,
+  onReady,
+}: FluidMaskFallbackProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [spotlight, setSpotlight] = useState<{ x: number; y: number } | null>(null);
+  const themeVersion = useThemeVersion();
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+
+  const showPoster = mode === "static" && poster !== undefined;
+  const drawsOverlay = !showPoster && children == null && !!overlay;
+  const overlayKey = overlay ? JSON.stringify(overlay) : "";
+  const overlayRef = useRef(overlay);
+  overlayRef.current = overlay;
+
+  // DOM covers are ready on mount; a drawn overlay once its fonts have loaded
+  useEffect(() => {
+    if (!drawsOverlay) onReadyRef.current?.();
+  }, [drawsOverlay]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    const content = overlayRef.current;
+    if (!drawsOverlay || !container || !canvas || !content) return;
+
+    // Draws can wait on fonts and finish out of order; only the latest one paints
+    let cancelled = false;
+    let latestDraw = 0;
+    const draw = async () => {
+      const drawId = ++latestDraw;
+      const isCurrent = () => !cancelled && drawId === latestDraw;
+      const rect = container.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) {
+        // Nothing to draw yet; a later resize paints it
+        onReadyRef.current?.();
+        return;
+      }
+      const pixelRatio = Math.min(window.devicePixelRatio || 1, 2);
+      try {
+        const image = await drawOverlay(content, rect.width, rect.height, pixelRatio);
+        const ctx = canvas.getContext("2d");
+        if (!isCurrent() || !ctx) return;
+        canvas.width = image.width;
+        canvas.height = image.height;
+        ctx.drawImage(image, 0, 0);
+      } catch (error) {
+        if (!isCurrent()) return;
+        console.error("Failed to draw overlay:", error);
+      }
+      onReadyRef.current?.();
+    };
+
+    const resizeObserver = new ResizeObserver(() => draw());
+    resizeObserver.observe(container);
+
+    return () => {
+      cancelled = true;
+      resizeObserver.disconnect();
+    };
+  }, [drawsOverlay, overlayKey, themeVersion]);
+
+  // Pointer tracking for the spotlight, window-wide like the WebGL scene
+  useEffect(() => {
+    const container = containerRef.current;
+    if (mode !== "css" || !container) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const rect = container.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      const inside = x >= 0 && y >= 0 && x <= rect.width && y <= rect.height;
+      setSpotlight(inside ? { x, y } : null);
+    };
+
+    const handlePointerLeave = () => setSpotlight(null);
+
+    window.addEventListener("pointermove", handlePointerMove);
+    window.addEventListener("pointerdown", handlePointerMove);
+    document.documentElement.addEventListener("pointerleave", handlePointerLeave);
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerdown", handlePointerMove);
+      document.documentElement.removeEventListener("pointerleave", handlePointerLeave);
+    };
+  }, [mode]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      style={{
+        position: "absolute",
+        inset: 0,
+        pointerEvents: "none",
+        clipPath: spotlight ? createSpotlightHole(spotlight.x, spotlight.y, SPOTLIGHT_RADIUS) : undefined,
+      }}
+    >
+      {showPoster ? (
+        poster
+      ) : children != null ? (
+        <div className="h-full w-full">{children}</div>
+      ) : (
+        <canvas ref={canvasRef} className="block h-full w-full" />
+      )}
+    </div>
+  );
+}
@@ -1,261 +1,56 @@
 "use client";
 
-import { useRef, useMemo, useEffect, useCallback, useState } from "react";
+import { Component, useRef, useMemo, useEffect, useState, useCallback, ReactNode } from "react";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
-import { useFBO } from "@react-three/drei";
 import * as THREE from "three";
-
-// =============================================================================
-// SHADERS - Navier-Stokes Fluid Simulation
-// Based on Jos Stam's stable fluid simulation and GPU Gems techniques
-// =============================================================================
-
-// Base vertex shader for full-screen quad with neighbor UVs
-const baseVertexShader = `
-  varying vec2 vUv;
-  varying vec2 vL;
-  varying vec2 vR;
-  varying vec2 vT;
-  varying vec2 vB;
-  uniform vec2 texelSize;
-
-  void main() {
-    vUv = uv;
-    vL = uv - vec2(texelSize.x, 0.0);
-    vR = uv + vec2(texelSize.x, 0.0);
-    vT = uv + vec2(0.0, texelSize.y);
-    vB = uv - vec2(0.0, texelSize.y);
-    gl_Position = vec4(position, 1.0);
-  }
-`;
-
-// Simple vertex shader (no neighbor computation)
-const simpleVertexShader = `
-  varying vec2 vUv;
-  void main() {
-    vUv = uv;
-    gl_Position = vec4(position, 1.0);
-  }
-`;
-
-// Splat shader - adds velocity/dye at pointer position
-const splatShader = `
-  precision highp float;
-  varying vec2 vUv;
-  uniform sampler2D uTarget;
-  uniform float aspectRatio;
-  uniform vec3 color;
-  uniform vec2 point;
-  uniform float radius;
-
-  void main() {
-    vec2 p = vUv - point.xy;
-    p.x *= aspectRatio;
-    vec3 splat = exp(-dot(p, p) / radius) * color;
-    vec3 base = texture2D(uTarget, vUv).xyz;
-    gl_FragColor = vec4(base + splat, 1.0);
-  }
-`;
-
-// Curl shader - calculates vorticity (rotation) at each point
-const curlShader = `
-  precision highp float;
-  varying vec2 vUv;
-  varying vec2 vL;
-  varying vec2 vR;
-  varying vec2 vT;
-  varying vec2 vB;
-  uniform sampler2D uVelocity;
-
-  void main() {
-    float L = texture2D(uVelocity, vL).y;
-    float R = texture2D(uVelocity, vR).y;
-    float T = texture2D(uVelocity, vT).x;
-    float B = texture2D(uVelocity, vB).x;
-    float vorticity = R - L - T + B;
-    gl_FragColor = vec4(0.5 * vorticity, 0.0, 0.0, 1.0);
-  }
-`;
-
-// Vorticity shader - applies vorticity confinement (creates swirling)
-const vorticityShader = `
-  precision highp float;
-  varying vec2 vUv;
-  varying vec2 vL;
-  varying vec2 vR;
-  varying vec2 vT;
-  varying vec2 vB;
-  uniform sampler2D uVelocity;
-  uniform sampler2D uCurl;
-  uniform float curl;
-  uniform float dt;
-
-  void main() {
-    float L = texture2D(uCurl, vL).x;
-    float R = texture2D(uCurl, vR).x;
-    float T = texture2D(uCurl, vT).x;
-    float B = texture2D(uCurl, vB).x;
-    float C = texture2D(uCurl, vUv).x;
-    vec2 force = 0.5 * vec2(abs(T) - abs(B), abs(R) - abs(L));
-    force /= length(force) + 0.0001;
-    force *= curl * C;
-    force.y *= -1.0;
-    vec2 vel = texture2D(uVelocity, vUv).xy;
-    gl_FragColor = vec4(vel + force * dt, 0.0, 1.0);
-  }
-`;
-
-// Divergence shader - calculates velocity divergence
-const divergenceShader = `
-  precision highp float;
-  varying vec2 vUv;
-  varying vec2 vL;
-  varying vec2 vR;
-  varying vec2 vT;
-  varying vec2 vB;
-  uniform sampler2D uVelocity;
-
-  void main() {
-    float L = texture2D(uVelocity, vL).x;
-    float R = texture2D(uVelocity, vR).x;
-    float T = texture2D(uVelocity, vT).y;
-    float B = texture2D(uVelocity, vB).y;
-    vec2 C = texture2D(uVelocity, vUv).xy;
-    if (vL.x < 0.0) { L = -C.x; }
-    if (vR.x > 1.0) { R = -C.x; }
-    if (vT.y > 1.0) { T = -C.y; }
-    if (vB.y < 0.0) { B = -C.y; }
-    float div = 0.5 * (R - L + T - B);
-    gl_FragColor = vec4(div, 0.0, 0.0, 1.0);
-  }
-`;
-
-// Clear shader - multiplies texture by a value (for pressure reset)
-const clearShader = `
-  precision highp float;
-  varying vec2 vUv;
-  uniform sampler2D uTexture;
-  uniform float value;
-
-  void main() {
-    gl_FragColor = value * texture2D(uTexture, vUv);
-  }
-`;
-
-// Pressure shader - iteratively solves pressure field (Jacobi iteration)
-const pressureShader = `
-  precision highp float;
-  varying vec2 vUv;
-  varying vec2 vL;
-  varying vec2 vR;
-  varying vec2 vT;
-  varying vec2 vB;
-  uniform sampler2D uPressure;
-  uniform sampler2D uDivergence;
-
-  void main() {
-    float L = texture2D(uPressure, vL).x;
-    float R = texture2D(uPressure, vR).x;
-    float T = texture2D(uPressure, vT).x;
-    float B = texture2D(uPressure, vB).x;
-    float divergence = texture2D(uDivergence, vUv).x;
-    float pressure = (L + R + B + T - divergence) * 0.25;
-    gl_FragColor = vec4(pressure, 0.0, 0.0, 1.0);
-  }
-`;
-
-// Gradient subtract shader - makes velocity divergence-free
-const gradientSubtractShader = `
-  precision highp float;
-  varying vec2 vUv;
-  varying vec2 vL;
-  varying vec2 vR;
-  varying vec2 vT;
-  varying vec2 vB;
-  uniform sampler2D uPressure;
-  uniform sampler2D uVelocity;
-
-  void main() {
-    float L = texture2D(uPressure, vL).x;
-    float R = texture2D(uPressure, vR).x;
-    float T = texture2D(uPressure, vT).x;
-    float B = texture2D(uPressure, vB).x;
-    vec2 velocity = texture2D(uVelocity, vUv).xy;
-    velocity.xy -= vec2(R - L, T - B);
-    gl_FragColor = vec4(velocity, 0.0, 1.0);
-  }
-`;
-
-// Advection shader - moves quantities along velocity field
-const advectionShader = `
-  precision highp float;
-  varying vec2 vUv;
-  uniform sampler2D uVelocity;
-  uniform sampler2D uSource;
-  uniform vec2 texelSize;
-  uniform float dt;
-  uniform float dissipation;
-
-  void main() {
-    vec2 coord = vUv - dt * texture2D(uVelocity, vUv).xy * texelSize;
-    vec4 result = texture2D(uSource, coord);
-    float decay = 1.0 + dissipation * dt;
-    gl_FragColor = result / decay;
-  }
-`;
-
-// Display shader - composites base texture with mask for reveal effect
-const displayShader = `
-  precision highp float;
-  varying vec2 vUv;
-  
-  uniform sampler2D uMask;
-  uniform sampler2D uBaseTexture;
-  uniform bool uHasBaseTexture;
-  uniform vec3 uBackgroundColor;
-  
-  void main() {
-    float mask = texture2D(uMask, vUv).r;
-    
-    // Apply smooth curve for more organic feel
-    float smoothMask = smoothstep(0.0, 0.8, mask);
-    
-    // Where mask is high (fluid painted), alpha is low (transparent to reveal content below)
-    // Where mask is low (no fluid), show base texture (UNBOUND)
-    float alpha = 1.0 - smoothMask;
-    
-    if (uHasBaseTexture) {
-      vec4 baseColor = texture2D(uBaseTexture, vUv);
-      gl_FragColor = vec4(baseColor.rgb, baseColor.a * alpha);
-    } else {
-      gl_FragColor = vec4(uBackgroundColor * alpha, alpha);
-    }
-  }
-`;
+import { FluidSolver, FluidColor, FluidConfig, FluidPoint, defaultConfig as defaultSolverConfig } from "./FluidSolver";
+import { ThreeBackend, ThreeTarget, createQuadGeometry, createShaderMaterial, setShaderKeywords } from "./ThreeBackend";
+import { displayCompositeShader } from "./shaders";
+import { QualityGovernor, QualityTier } from "./quality";
+import { OverlayContent, createTextOverlay, drawOverlay } from "./overlay";
+import { rasterizeElement } from "./rasterize";
+import { useFluidVisibility, useThemeVersion } from "./visibility";
+import { FluidRenderer, detectFallbackRenderer, detectFluidRenderer } from "./capabilities";
+import { FluidMaskFallback } from "./FluidMaskFallback";
+import { applyThemeColors } from "./colors";
+import { FluidSnapshot, decodeSnapshot, encodeSnapshot, loadSnapshot, saveSnapshot } from "./snapshot";
+import type { FluidRecording } from "./recording";
 
 // =============================================================================
 // CONFIG & TYPES
 // =============================================================================
 
-interface FluidMaskConfig {
-  // Visual parameters
-  radius: number;
-  strength: number;
-  dissipation: number;
+// The shared solver config plus what only the mask composite needs
+interface FluidMaskConfig extends FluidConfig {
   backgroundColor: [number, number, number];
-  // Physics parameters
-  curl: number;
-  velocityDissipation: number;
-  pressureIterations: number;
-  splatForce: number;
-  simResolution: number;
+  // Adaptive quality: when on, the current tier overrides simResolution,
+  // dyeResolution and pressureIterations and caps the canvas DPR
+  adaptiveQuality: boolean;
+  minQualityTier: number;
+  maxQualityTier: number;
+  targetFrameRate: number;
+  // Attract mode: phantom pointers wander over the overlay after attractDelay
+  // seconds without input, until the visitor moves or taps
+  attractMode: boolean;
+  attractDelay: number;
+  attractPointers: number;
+  // Seconds to crossfade backgroundColor and the base texture when either
+  // changes, e.g. on a theme switch. 0 swaps instantly.
+  themeTransition: number;
 }
 
 const defaultConfig: FluidMaskConfig = {
+  ...defaultSolverConfig,
   // Visual
-  radius: 0.3,
-  strength: 0.45,
-  dissipation: 8,
+  splatRadius: 30,
+  aspectScaledRadius: false,
+  dyeSplatRadius: 0.5,
+  dyeAdvection: "dye",
+  colorR: 0.45,
+  colorG: 0.45,
+  colorB: 0.45,
+  densityDissipation: 8,
+  dyeResolution: 1024,
   backgroundColor: [0.039, 0.039, 0.039],
   // Physics
   curl: 30,
@@ -263,59 +58,23 @@ const defaultConfig: FluidMaskConfig = {
   pressureIterations: 40,
   splatForce: 13500,
   simResolution: 128,
+  // Quality
+  adaptiveQuality: false,
+  minQualityTier: 0,
+  maxQualityTier: 4,
+  targetFrameRate: 60,
+  // Attract mode
+  attractMode: false,
+  attractDelay: 4,
+  attractPointers: 1,
+  themeTransition: 0.6,
 };
 
 // =============================================================================
 // HELPERS
 // =============================================================================
 
-function getCssVar(name: string, fallback: string): string {
-  if (typeof window === "undefined") return fallback;
-  const value = getComputedStyle(document.documentElement).getPropertyValue(name).trim();
-  return value || fallback;
-}
-
-function createTextTexture(
-  text: string, 
-  subtext?: string,
-  screenWidth?: number,
-  screenHeight?: number
-): THREE.CanvasTexture {
-  const baseWidth = screenWidth || window.innerWidth;
-  const baseHeight = screenHeight || window.innerHeight;
-  const dpr = Math.min(window.devicePixelRatio || 1, 2);
-  const width = Math.floor(baseWidth * dpr);
-  const height = Math.floor(baseHeight * dpr);
-  
-  const canvas = document.createElement("canvas");
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext("2d")!;
-  
-  const bgColor = getCssVar("--background", "#0a0a0a");
-  const fgColor = getCssVar("--foreground", "#fafafa");
-  const mutedColor = getCssVar("--muted", "#737373");
-  
-  ctx.fillStyle = bgColor;
-  ctx.fillRect(0, 0, width, height);
-  
-  ctx.fillStyle = fgColor;
-  ctx.textAlign = "center";
-  ctx.textBaseline = "middle";
-  
-  const fontSize = Math.floor(Math.min(height * 0.18, width * 0.12));
-  ctx.font = `400 ${fontSize}px "Instrument Serif", Georgia, serif`;
-  
-  const centerY = subtext ? height * 0.48 : height * 0.5;
-  ctx.fillText(text, width / 2, centerY);
-  
-  if (subtext) {
-    ctx.fillStyle = mutedColor;
-    const subtextSize = Math.floor(fontSize * 0.12);
-    ctx.font = `400 ${subtextSize}px system-ui, -apple-system, sans-serif`;
-    ctx.fillText(subtext, width / 2, centerY + fontSize * 0.55);
-  }
-  
+function createOverlayTexture(canvas: HTMLCanvasElement): THREE.CanvasTexture {
   const texture = new THREE.CanvasTexture(canvas);
   texture.minFilter = THREE.LinearFilter;
   texture.magFilter = THREE.LinearFilter;
@@ -323,14 +82,36 @@ function createTextTexture(
   return texture;
 }
 
-// Calculate simulation resolution maintaining aspect ratio
-function getSimResolution(baseRes: number, width: number, height: number) {
-  const aspectRatio = width / height;
-  if (aspectRatio >= 1) {
-    return { width: Math.round(baseRes * aspectRatio), height: baseRes };
-  } else {
-    return { width: baseRes, height: Math.round(baseRes / aspectRatio) };
-  }
+// Seconds between coverage measurements; each one waits on a tiny GPU readback
+const COVERAGE_INTERVAL = 0.25;
+
+// Saved dye is capped at this resolution to keep snapshots small enough for sessionStorage
+const SNAPSHOT_DYE_RESOLUTION = 512;
+
+// Smooth wandering path for phantom pointer `index`, normalized with the origin
+// top-left. Incommensurate sine frequencies keep it from visibly repeating.
+function getAttractPosition(time: number, index: number): FluidPoint {
+  const phase = index * 2.1;
+  return {
+    x: 0.5 + 0.3 * Math.sin(time * 0.83 + phase) + 0.08 * Math.sin(time * 2.31 + phase * 1.7),
+    y: 0.5 + 0.25 * Math.sin(time * 1.17 + phase * 0.6) + 0.08 * Math.cos(time * 1.93 + phase),
+  };
+}
+
+// Phantom pointers use negative ids so they never collide with a real pointerId
+function getAttractPointerId(index: number): number {
+  return -1 - index;
+}
+
+function smoothFade(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+// Tier settings override the configured resolutions while adaptive quality is on
+function applyQualityTier(config: FluidMaskConfig, governor: QualityGovernor | null): FluidMaskConfig {
+  if (!governor) return config;
+  const { simResolution, dyeResolution, pressureIterations } = governor.getSettings();
+  return { ...config, simResolution, dyeResolution, pressureIterations };
 }
 
 // =============================================================================
@@ -340,402 +121,366 @@ function getSimResolution(baseRes: number, width: number, height: number) {
 interface FluidMaskPlaneProps {
   config?: Partial<FluidMaskConfig>;
   baseTexture?: THREE.Texture | null;
+  onQualityChange?: (tier: number, settings: QualityTier) => void;
+  onCoverageChange?: (percent: number) => void;
+  revealThreshold?: number;
+  onRevealThreshold?: (percent: number) => void;
+  obstacleImage?: TexImageSource | null;
+  snapshot?: FluidSnapshot | null;
+  snapshotKey?: string;
+  replay?: FluidRecording | null;
+  replayLoop?: boolean;
+  onReplayEnd?: () => void;
+  record?: boolean;
+  onRecording?: (recording: FluidRecording) => void;
 }
 
-function FluidMaskPlane({ config: userConfig, baseTexture }: FluidMaskPlaneProps) {
+function FluidMaskPlane({
+  config: userConfig,
+  baseTexture,
+  obstacleImage = null,
+  snapshot = null,
+  snapshotKey,
+  replay = null,
+  replayLoop = false,
+  onReplayEnd,
+  record = false,
+  onRecording,
+  onQualityChange,
+  onCoverageChange,
+  revealThreshold = 50,
+  onRevealThreshold,
+}: FluidMaskPlaneProps) {
   const config = { ...defaultConfig, ...userConfig };
-  const { size, gl } = useThree();
-  
+  const { gl, setDpr } = useThree();
+
   // Keep config in a ref so useFrame/callbacks always read latest values
   const configRef = useRef(config);
   configRef.current = config;
-  
-  // Calculate simulation resolution
-  const simRes = useMemo(() => 
-    getSimResolution(config.simResolution, size.width, size.height),
-    [config.simResolution, size.width, size.height]
-  );
-  
-  // FBO settings
-  const fboSettings = useMemo(() => ({
-    minFilter: THREE.LinearFilter,
-    magFilter: THREE.LinearFilter,
-    format: THREE.RGBAFormat,
-    type: THREE.FloatType,
-  }), []);
-  
-  // =========== FBOs for simulation state ===========
-  // Velocity field (ping-pong)
-  const velocityFboA = useFBO(simRes.width, simRes.height, fboSettings);
-  const velocityFboB = useFBO(simRes.width, simRes.height, fboSettings);
-  
-  // Curl (vorticity)
-  const curlFbo = useFBO(simRes.width, simRes.height, fboSettings);
-  
-  // Divergence
-  const divergenceFbo = useFBO(simRes.width, simRes.height, fboSettings);
-  
-  // Pressure (ping-pong)
-  const pressureFboA = useFBO(simRes.width, simRes.height, fboSettings);
-  const pressureFboB = useFBO(simRes.width, simRes.height, fboSettings);
-  
-  // Dye/Mask (ping-pong) - higher resolution for display
-  const dyeFboA = useFBO(size.width, size.height, fboSettings);
-  const dyeFboB = useFBO(size.width, size.height, fboSettings);
-  
-  // Refs for ping-pong swapping
-  const velocityRead = useRef(velocityFboA);
-  const velocityWrite = useRef(velocityFboB);
-  const pressureRead = useRef(pressureFboA);
-  const pressureWrite = useRef(pressureFboB);
-  const dyeRead = useRef(dyeFboA);
-  const dyeWrite = useRef(dyeFboB);
-  
-  // Pointer state
-  const pointer = useRef({
-    x: 0.5,
-    y: 0.5,
-    prevX: 0.5,
-    prevY: 0.5,
-    deltaX: 0,
-    deltaY: 0,
-    moved: false,
-    initialized: false,
-  });
-  
-  // Time tracking
-  const lastTime = useRef(Date.now());
-  
-  // =========== Shader Materials ===========
-  const texelSize = useMemo(() => 
-    new THREE.Vector2(1.0 / simRes.width, 1.0 / simRes.height),
-    [simRes.width, simRes.height]
-  );
-  
-  const dyeTexelSize = useMemo(() => 
-    new THREE.Vector2(1.0 / size.width, 1.0 / size.height),
-    [size.width, size.height]
-  );
-  
-  // Splat material (for adding velocity/dye)
-  const splatMaterial = useMemo(() => new THREE.ShaderMaterial({
-    vertexShader: simpleVertexShader,
-    fragmentShader: splatShader,
-    uniforms: {
-      uTarget: { value: null },
-      aspectRatio: { value: size.width / size.height },
-      point: { value: new THREE.Vector2(0.5, 0.5) },
-      color: { value: new THREE.Vector3(0, 0, 0) },
-      radius: { value: config.radius },
-    },
-  }), []);
-  
-  // Curl material
-  const curlMaterial = useMemo(() => new THREE.ShaderMaterial({
-    vertexShader: baseVertexShader,
-    fragmentShader: curlShader,
-    uniforms: {
-      texelSize: { value: texelSize },
-      uVelocity: { value: null },
-    },
-  }), []);
-  
-  // Vorticity material
-  const vorticityMaterial = useMemo(() => new THREE.ShaderMaterial({
-    vertexShader: baseVertexShader,
-    fragmentShader: vorticityShader,
-    uniforms: {
-      texelSize: { value: texelSize },
-      uVelocity: { value: null },
-      uCurl: { value: null },
-      curl: { value: config.curl },
-      dt: { value: 0.016 },
-    },
-  }), []);
-  
-  // Divergence material
-  const divergenceMaterial = useMemo(() => new THREE.ShaderMaterial({
-    vertexShader: baseVertexShader,
-    fragmentShader: divergenceShader,
-    uniforms: {
-      texelSize: { value: texelSize },
-      uVelocity: { value: null },
-    },
-  }), []);
-  
-  // Clear material
-  const clearMaterial = useMemo(() => new THREE.ShaderMaterial({
-    vertexShader: simpleVertexShader,
-    fragmentShader: clearShader,
-    uniforms: {
-      uTexture: { value: null },
-      value: { value: 0.8 },
-    },
-  }), []);
-  
-  // Pressure material
-  const pressureMaterial = useMemo(() => new THREE.ShaderMaterial({
-    vertexShader: baseVertexShader,
-    fragmentShader: pressureShader,
-    uniforms: {
-      texelSize: { value: texelSize },
-      uPressure: { value: null },
-      uDivergence: { value: null },
-    },
-  }), []);
-  
-  // Gradient subtract material
-  const gradientSubtractMaterial = useMemo(() => new THREE.ShaderMaterial({
-    vertexShader: baseVertexShader,
-    fragmentShader: gradientSubtractShader,
-    uniforms: {
-      texelSize: { value: texelSize },
-      uPressure: { value: null },
-      uVelocity: { value: null },
-    },
-  }), []);
-  
-  // Advection material
-  const advectionMaterial = useMemo(() => new THREE.ShaderMaterial({
-    vertexShader: simpleVertexShader,
-    fragmentShader: advectionShader,
-    uniforms: {
-      texelSize: { value: texelSize },
-      uVelocity: { value: null },
-      uSource: { value: null },
-      dt: { value: 0.016 },
-      dissipation: { value: config.velocityDissipation },
-    },
-  }), []);
-  
-  // Display material
-  const displayMaterial = useMemo(() => new THREE.ShaderMaterial({
-    vertexShader: simpleVertexShader,
-    fragmentShader: displayShader,
-    uniforms: {
-      uMask: { value: null },
-      uBaseTexture: { value: null },
-      uHasBaseTexture: { value: false },
-      uBackgroundColor: { value: new THREE.Vector3(...config.backgroundColor) },
-    },
-    transparent: true,
-  }), []);
-  
-  // Update base texture
+  const onQualityChangeRef = useRef(onQualityChange);
+  onQualityChangeRef.current = onQualityChange;
+  const coverageCallbacksRef = useRef({ onCoverageChange, revealThreshold, onRevealThreshold });
+  coverageCallbacksRef.current = { onCoverageChange, revealThreshold, onRevealThreshold };
+  const recordingCallbacksRef = useRef({ onReplayEnd, onRecording });
+  recordingCallbacksRef.current = { onReplayEnd, onRecording };
+
+  // Coverage sampling state
+  const coverageClock = useRef(0);
+  const lastCoverage = useRef(-1);
+  const thresholdReached = useRef(false);
+
+  // Attract mode state; touch devices count as idle until their first touch
+  const idleTime = useRef(0);
+  const attractTime = useRef(0);
+  const activeAttractPointers = useRef(0);
+  const reducedMotion = useRef(false);
+
   useEffect(() => {
-    if (baseTexture) {
-      displayMaterial.uniforms.uBaseTexture.value = baseTexture;
-      displayMaterial.uniforms.uHasBaseTexture.value = true;
-    } else {
-      displayMaterial.uniforms.uHasBaseTexture.value = false;
-    }
-  }, [baseTexture, displayMaterial]);
-  
-  // Update config values
+    const query = window.matchMedia("(prefers-reduced-motion: reduce)");
+    reducedMotion.current = query.matches;
+    const handleChange = (e: MediaQueryListEvent) => {
+      reducedMotion.current = e.matches;
+    };
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, []);
+
+  const solverRef = useRef<FluidSolver<ThreeTarget, THREE.RawShaderMaterial> | null>(null);
+  const governorRef = useRef<QualityGovernor | null>(null);
+  // Read once per solver, when it is created and when it is disposed
+  const snapshotRef = useRef({ snapshot, snapshotKey });
+  snapshotRef.current = { snapshot, snapshotKey };
+
+  const applyTier = useCallback((governor: QualityGovernor) => {
+    const settings = governor.getSettings();
+    setDpr(Math.min(window.devicePixelRatio || 1, settings.dpr));
+    onQualityChangeRef.current?.(governor.getTier(), settings);
+  }, [setDpr]);
+
+  // A new governor starts over whenever adaptive quality or its bounds change
+  const { adaptiveQuality, minQualityTier, maxQualityTier, targetFrameRate } = config;
   useEffect(() => {
-    splatMaterial.uniforms.radius.value = config.radius;
-    vorticityMaterial.uniforms.curl.value = config.curl;
-    advectionMaterial.uniforms.dissipation.value = config.velocityDissipation;
-    displayMaterial.uniforms.uBackgroundColor.value.set(...config.backgroundColor);
-  }, [config, splatMaterial, vorticityMaterial, advectionMaterial, displayMaterial]);
-  
-  // Pointer event handler
-  const handlePointerMove = useCallback((e: PointerEvent) => {
-    const x = e.clientX / window.innerWidth;
-    const y = 1.0 - e.clientY / window.innerHeight;
-    
-    if (!pointer.current.initialized) {
-      pointer.current.initialized = true;
-      pointer.current.x = x;
-      pointer.current.y = y;
-      pointer.current.prevX = x;
-      pointer.current.prevY = y;
-    } else {
-      pointer.current.prevX = pointer.current.x;
-      pointer.current.prevY = pointer.current.y;
-      pointer.current.x = x;
-      pointer.current.y = y;
-      pointer.current.deltaX = x - pointer.current.prevX;
-      pointer.current.deltaY = y - pointer.current.prevY;
-      pointer.current.moved = Math.abs(pointer.current.deltaX) > 0 || Math.abs(pointer.current.deltaY) > 0;
+    if (!adaptiveQuality) {
+      governorRef.current = null;
+      return;
     }
-  }, []);
-  
+    const governor = new QualityGovernor({
+      minTier: minQualityTier,
+      maxTier: maxQualityTier,
+      targetFrameRate,
+    });
+    governorRef.current = governor;
+    applyTier(governor);
+
+    return () => {
+      governorRef.current = null;
+      // Back to the Canvas default DPR range
+      setDpr([1, 2]);
+    };
+  }, [adaptiveQuality, minQualityTier, maxQualityTier, targetFrameRate, applyTier, setDpr]);
+
+  // Created in an effect so StrictMode's double mount disposes the first solver
   useEffect(() => {
+    const backend = new ThreeBackend(gl);
+    const solver = new FluidSolver(backend, applyQualityTier(configRef.current, governorRef.current));
+    solverRef.current = solver;
+
+    // Saved state under snapshotKey wins over the snapshot prop
+    let disposed = false;
+    const { snapshot: initialSnapshot, snapshotKey: initialKey } = snapshotRef.current;
+    const restored = (initialKey ? loadSnapshot(initialKey) : null) ?? initialSnapshot;
+    if (restored) {
+      decodeSnapshot(restored)
+        .then((fields) => {
+          // A replay has already cleared the fields and must start from that
+          if (!disposed && !solver.isReplaying()) solver.writeFields(fields);
+        })
+        .catch((error) => console.warn("Ignoring fluid snapshot:", error));
+    }
+
+    // The fields are read right away; compression finishes after the solver
+    // is gone, which a full page unload may cut short
+    const saveSnapshotState = () => {
+      const key = snapshotRef.current.snapshotKey;
+      if (!key || disposed || gl.getContext().isContextLost()) return;
+      encodeSnapshot(solver.readFields(SNAPSHOT_DYE_RESOLUTION))
+        .then((state) => saveSnapshot(key, state))
+        .catch((error) => console.warn("Failed to save fluid snapshot:", error));
+    };
+
+    // Real input ends attract mode right away and restarts the idle clock
+    const stopAttract = () => {
+      idleTime.current = 0;
+      for (let i = 0; i < activeAttractPointers.current; i++) {
+        solver.updatePointerUp(getAttractPointerId(i));
+      }
+      activeAttractPointers.current = 0;
+    };
+
+    // Positions come from the canvas rect, which already reflects the scale and
+    // pinning ZoomTransition applies. Null when the pointer is outside the canvas.
+    const toCanvasPoint = (e: PointerEvent): FluidPoint | null => {
+      const rect = gl.domElement.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return null;
+      const x = (e.clientX - rect.left) / rect.width;
+      const y = (e.clientY - rect.top) / rect.height;
+      if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+      return { x, y };
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      stopAttract();
+      const point = toCanvasPoint(e);
+      if (!point) return;
+      solver.updatePointerDown(e.pointerId, point.x, 1.0 - point.y, e.pressure);
+      // A tap leaves a mark before the pointer has moved at all
+      solver.splat(point.x, point.y, 0, 0, undefined, FluidSolver.pressureToRadiusScale(e.pressure));
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      stopAttract();
+      const point = toCanvasPoint(e);
+      if (!point) {
+        // Drop it so coming back in does not streak from the exit point
+        if (solver.hasPointer(e.pointerId)) solver.updatePointerUp(e.pointerId);
+        return;
+      }
+      solver.updatePointerMove(e.pointerId, point.x, 1.0 - point.y, e.pressure);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      solver.updatePointerUp(e.pointerId);
+    };
+
+    window.addEventListener("pointerdown", handlePointerDown);
     window.addEventListener("pointermove", handlePointerMove);
-    return () => window.removeEventListener("pointermove", handlePointerMove);
-  }, [handlePointerMove]);
-  
-  // Quad geometry for rendering
-  const quadGeometry = useMemo(() => {
-    const geo = new THREE.BufferGeometry();
-    const vertices = new Float32Array([
-      -1, -1, 0,
-       1, -1, 0,
-       1,  1, 0,
-      -1, -1, 0,
-       1,  1, 0,
-      -1,  1, 0,
-    ]);
-    const uvs = new Float32Array([
-      0, 0,
-      1, 0,
-      1, 1,
-      0, 0,
-      1, 1,
-      0, 1,
-    ]);
-    geo.setAttribute("position", new THREE.BufferAttribute(vertices, 3));
-    geo.setAttribute("uv", new THREE.BufferAttribute(uvs, 2));
-    return geo;
+    window.addEventListener("pointerup", handlePointerUp);
+    window.addEventListener("pointercancel", handlePointerUp);
+    window.addEventListener("pagehide", saveSnapshotState);
+
+    return () => {
+      window.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handlePointerUp);
+      window.removeEventListener("pagehide", saveSnapshotState);
+      saveSnapshotState();
+      disposed = true;
+      solverRef.current = null;
+      solver.dispose();
+      backend.dispose();
+    };
+  }, [gl]);
+
+  // Runs after the solver effect above, so the first image lands on a live solver
+  useEffect(() => {
+    solverRef.current?.setObstacleImage(obstacleImage);
+  }, [obstacleImage]);
+
+  // Live pointer input and config changes are ignored by the solver while a
+  // replay runs; the frame loop keeps calling them as usual
+  useEffect(() => {
+    const solver = solverRef.current;
+    if (!solver || !replay) return;
+    solver.replay(replay, {
+      loop: replayLoop,
+      onEnd: () => recordingCallbacksRef.current.onReplayEnd?.(),
+    });
+    return () => solver.stopReplay();
+  }, [replay, replayLoop]);
+
+  // Delivered when record turns off or the plane unmounts
+  useEffect(() => {
+    const solver = solverRef.current;
+    if (!solver || !record) return;
+    solver.startRecording();
+    return () => {
+      const recording = solver.stopRecording();
+      if (recording) recordingCallbacksRef.current.onRecording?.(recording);
+    };
+  }, [record]);
+
+  // "theme" dye colours, resolved from CSS once per theme rather than per frame
+  const themeVersion = useThemeVersion();
+  const themePalette = useRef<FluidColor[] | null>(null);
+  const { colorMode } = config;
+  const themeColorsKey = config.themeColors.join();
+  useEffect(() => {
+    themePalette.current = colorMode === "theme" ? applyThemeColors(configRef.current).palette : null;
+  }, [colorMode, themeColorsKey, themeVersion]);
+
+  // Display material, drawn straight to the canvas by R3F. Recompiled in
+  // useFrame when the post effects in the config change.
+  const displayKeywords = useRef("");
+  const displayMaterial = useMemo(() => {
+    const material = createShaderMaterial(displayCompositeShader);
+    material.transparent = true;
+    return material;
   }, []);
-  
-  // Offscreen scene for simulation passes
-  const offscreenScene = useMemo(() => new THREE.Scene(), []);
-  const offscreenCamera = useMemo(() => new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1), []);
-  const offscreenMesh = useMemo(() => new THREE.Mesh(quadGeometry), [quadGeometry]);
-  
+  const quadGeometry = useMemo(() => createQuadGeometry(), []);
+
   useEffect(() => {
-    offscreenScene.add(offscreenMesh);
-    return () => { offscreenScene.remove(offscreenMesh); };
-  }, [offscreenScene, offscreenMesh]);
-  
-  // Helper to render a pass
-  const renderPass = useCallback((material: THREE.ShaderMaterial, target: THREE.WebGLRenderTarget | null) => {
-    offscreenMesh.material = material;
-    gl.setRenderTarget(target);
-    gl.render(offscreenScene, offscreenCamera);
-  }, [gl, offscreenScene, offscreenCamera, offscreenMesh]);
-  
-  // Splat function - adds velocity and dye at a point
-  const splat = useCallback((x: number, y: number, dx: number, dy: number) => {
-    const aspect = size.width / size.height;
-    const cfg = configRef.current;
-    
-    // Splat velocity
-    splatMaterial.uniforms.uTarget.value = velocityRead.current.texture;
-    splatMaterial.uniforms.aspectRatio.value = aspect;
-    splatMaterial.uniforms.point.value.set(x, y);
-    splatMaterial.uniforms.color.value.set(dx * cfg.splatForce, dy * cfg.splatForce, 0);
-    splatMaterial.uniforms.radius.value = cfg.radius;
-    renderPass(splatMaterial, velocityWrite.current);
-    // Swap
-    const tempV = velocityRead.current;
-    velocityRead.current = velocityWrite.current;
-    velocityWrite.current = tempV;
-    
-    // Splat dye (mask)
-    splatMaterial.uniforms.uTarget.value = dyeRead.current.texture;
-    splatMaterial.uniforms.color.value.set(cfg.strength, cfg.strength, cfg.strength);
-    splatMaterial.uniforms.radius.value = cfg.radius * 0.5;
-    renderPass(splatMaterial, dyeWrite.current);
-    // Swap
-    const tempD = dyeRead.current;
-    dyeRead.current = dyeWrite.current;
-    dyeWrite.current = tempD;
-  }, [size.width, size.height, splatMaterial, renderPass]);
-  
+    return () => {
+      displayMaterial.dispose();
+      quadGeometry.dispose();
+    };
+  }, [displayMaterial, quadGeometry]);
+
+  // Crossfade state for palette changes; the solver keeps running underneath
+  const baseFade = useRef(1);
+  const backgroundFade = useRef(1);
+  const backgroundFrom = useRef<[number, number, number]>([...config.backgroundColor]);
+  const backgroundTo = useRef<[number, number, number]>([...config.backgroundColor]);
+
+  // Update base texture, fading from the one it replaces
+  const previousBaseTexture = useRef<THREE.Texture | null>(null);
+  useEffect(() => {
+    const uniforms = displayMaterial.uniforms;
+    const previous = previousBaseTexture.current;
+    previousBaseTexture.current = baseTexture ?? null;
+
+    if (baseTexture) {
+      uniforms.uBaseTexture.value = baseTexture;
+      uniforms.uHasBaseTexture.value = true;
+      if (previous && previous !== baseTexture && configRef.current.themeTransition > 0) {
+        uniforms.uPreviousBaseTexture.value = previous;
+        uniforms.uHasPreviousBaseTexture.value = true;
+        baseFade.current = 0;
+      }
+    } else {
+      uniforms.uHasBaseTexture.value = false;
+      uniforms.uHasPreviousBaseTexture.value = false;
+    }
+  }, [baseTexture, displayMaterial]);
+
   // Main simulation loop
-  useFrame(() => {
-    const now = Date.now();
-    let dt = (now - lastTime.current) / 1000;
-    dt = Math.min(dt, 0.016667); // Cap at ~60fps
-    lastTime.current = now;
-    
-    const aspect = size.width / size.height;
+  useFrame((_, delta) => {
+    const solver = solverRef.current;
+    if (!solver) return;
+
+    const governor = governorRef.current;
+    if (governor && governor.sample(delta) !== null) {
+      applyTier(governor);
+    }
+
     const cfg = configRef.current; // Read latest config values
-    
-    // Apply pointer input
-    if (pointer.current.moved) {
-      pointer.current.moved = false;
-      
-      // Correct delta for aspect ratio
-      let dx = pointer.current.deltaX;
-      let dy = pointer.current.deltaY;
-      if (aspect < 1) dx *= aspect;
-      if (aspect > 1) dy /= aspect;
-      
-      splat(pointer.current.x, pointer.current.y, dx, dy);
+    const palette = themePalette.current;
+    solver.updateConfig(applyQualityTier(palette ? { ...cfg, palette } : cfg, governor));
+
+    // Attract mode: phantom pointers go through the same pointer path as real ones
+    idleTime.current += delta;
+    const attractCount = cfg.attractMode && !reducedMotion.current && idleTime.current >= cfg.attractDelay
+      ? Math.max(0, Math.floor(cfg.attractPointers))
+      : 0;
+    for (let i = attractCount; i < activeAttractPointers.current; i++) {
+      solver.updatePointerUp(getAttractPointerId(i));
+    }
+    activeAttractPointers.current = attractCount;
+    if (attractCount > 0) {
+      attractTime.current += delta;
+      for (let i = 0; i < attractCount; i++) {
+        const position = getAttractPosition(attractTime.current, i);
+        solver.updatePointerMove(getAttractPointerId(i), position.x, 1.0 - position.y);
+      }
+    }
+    solver.resize();
+    // R3F's frame delta drives the steps; with fixedTimestep speed is independent of refresh rate
+    solver.advance(delta);
+
+    // Report how much of the overlay has been scratched away
+    const coverage = coverageCallbacksRef.current;
+    coverageClock.current += delta;
+    if ((coverage.onCoverageChange || coverage.onRevealThreshold) && coverageClock.current >= COVERAGE_INTERVAL) {
+      coverageClock.current = 0;
+      const percent = Math.round(solver.measureCoverage() * 1000) / 10;
+      if (percent !== lastCoverage.current) {
+        lastCoverage.current = percent;
+        coverage.onCoverageChange?.(percent);
+      }
+      if (!thresholdReached.current && percent >= coverage.revealThreshold) {
+        thresholdReached.current = true;
+        coverage.onRevealThreshold?.(percent);
+      }
     }
-    
-    // === CURL PASS ===
-    curlMaterial.uniforms.uVelocity.value = velocityRead.current.texture;
-    curlMaterial.uniforms.texelSize.value = texelSize;
-    renderPass(curlMaterial, curlFbo);
-    
-    // === VORTICITY PASS ===
-    vorticityMaterial.uniforms.uVelocity.value = velocityRead.current.texture;
-    vorticityMaterial.uniforms.uCurl.value = curlFbo.texture;
-    vorticityMaterial.uniforms.curl.value = cfg.curl;
-    vorticityMaterial.uniforms.dt.value = dt;
-    vorticityMaterial.uniforms.texelSize.value = texelSize;
-    renderPass(vorticityMaterial, velocityWrite.current);
-    // Swap
-    let temp = velocityRead.current;
-    velocityRead.current = velocityWrite.current;
-    velocityWrite.current = temp;
-    
-    // === DIVERGENCE PASS ===
-    divergenceMaterial.uniforms.uVelocity.value = velocityRead.current.texture;
-    divergenceMaterial.uniforms.texelSize.value = texelSize;
-    renderPass(divergenceMaterial, divergenceFbo);
-    
-    // === CLEAR PRESSURE ===
-    clearMaterial.uniforms.uTexture.value = pressureRead.current.texture;
-    clearMaterial.uniforms.value.value = 0.8;
-    renderPass(clearMaterial, pressureWrite.current);
-    temp = pressureRead.current;
-    pressureRead.current = pressureWrite.current;
-    pressureWrite.current = temp;
-    
-    // === PRESSURE ITERATIONS ===
-    pressureMaterial.uniforms.uDivergence.value = divergenceFbo.texture;
-    pressureMaterial.uniforms.texelSize.value = texelSize;
-    for (let i = 0; i < cfg.pressureIterations; i++) {
-      pressureMaterial.uniforms.uPressure.value = pressureRead.current.texture;
-      renderPass(pressureMaterial, pressureWrite.current);
-      temp = pressureRead.current;
-      pressureRead.current = pressureWrite.current;
-      pressureWrite.current = temp;
+
+    // Palette crossfade
+    const uniforms = displayMaterial.uniforms;
+    const fadeStep = cfg.themeTransition > 0 ? delta / cfg.themeTransition : 1;
+    if (baseFade.current < 1) {
+      baseFade.current = Math.min(1, baseFade.current + fadeStep);
+      if (baseFade.current === 1) uniforms.uHasPreviousBaseTexture.value = false;
+    }
+    uniforms.uBaseMix.value = smoothFade(baseFade.current);
+
+    const target = backgroundTo.current;
+    if (cfg.backgroundColor.some((channel, i) => channel !== target[i])) {
+      backgroundFrom.current = uniforms.uBackgroundColor.value.slice();
+      backgroundTo.current = [...cfg.backgroundColor];
+      backgroundFade.current = 0;
+    }
+    backgroundFade.current = Math.min(1, backgroundFade.current + fadeStep);
+    const mix = smoothFade(backgroundFade.current);
+    uniforms.uBackgroundColor.value = backgroundTo.current.map(
+      (channel, i) => backgroundFrom.current[i] + (channel - backgroundFrom.current[i]) * mix
+    );
+
+    const keywords = solver.getDisplayKeywords();
+    if (keywords.join() !== displayKeywords.current) {
+      displayKeywords.current = keywords.join();
+      setShaderKeywords(displayMaterial, displayCompositeShader, keywords);
     }
-    
-    // === GRADIENT SUBTRACT ===
-    gradientSubtractMaterial.uniforms.uPressure.value = pressureRead.current.texture;
-    gradientSubtractMaterial.uniforms.uVelocity.value = velocityRead.current.texture;
-    gradientSubtractMaterial.uniforms.texelSize.value = texelSize;
-    renderPass(gradientSubtractMaterial, velocityWrite.current);
-    temp = velocityRead.current;
-    velocityRead.current = velocityWrite.current;
-    velocityWrite.current = temp;
-    
-    // === ADVECT VELOCITY ===
-    advectionMaterial.uniforms.uVelocity.value = velocityRead.current.texture;
-    advectionMaterial.uniforms.uSource.value = velocityRead.current.texture;
-    advectionMaterial.uniforms.texelSize.value = texelSize;
-    advectionMaterial.uniforms.dt.value = dt;
-    advectionMaterial.uniforms.dissipation.value = cfg.velocityDissipation;
-    renderPass(advectionMaterial, velocityWrite.current);
-    temp = velocityRead.current;
-    velocityRead.current = velocityWrite.current;
-    velocityWrite.current = temp;
-    
-    // === ADVECT DYE (MASK) ===
-    advectionMaterial.uniforms.uVelocity.value = velocityRead.current.texture;
-    advectionMaterial.uniforms.uSource.value = dyeRead.current.texture;
-    advectionMaterial.uniforms.texelSize.value = dyeTexelSize;
-    advectionMaterial.uniforms.dissipation.value = cfg.dissipation;
-    renderPass(advectionMaterial, dyeWrite.current);
-    temp = dyeRead.current;
-    dyeRead.current = dyeWrite.current;
-    dyeWrite.current = temp;
-    
-    // === UPDATE DISPLAY ===
-    displayMaterial.uniforms.uMask.value = dyeRead.current.texture;
-    gl.setRenderTarget(null);
+    solver.renderEffects();
+    const effectUniforms = solver.getDisplayUniforms();
+    for (const name in effectUniforms) {
+      const value = effectUniforms[name];
+      uniforms[name].value = typeof value === "object" && !Array.isArray(value) ? value.renderTarget.texture : value;
+    }
+
+    uniforms.uMask.value = solver.dye.renderTarget.texture;
   });
-  
+
   return (
-    <mesh geometry={quadGeometry} material={displayMaterial} />
+    <mesh geometry={quadGeometry} material={displayMaterial} frustumCulled={false} />
   );
 }
 
@@ -746,50 +491,168 @@ function FluidMaskPlane({ config: userConfig, baseTexture }: FluidMaskPlaneProps
 interface FluidMaskSceneProps {
   className?: string;
   config?: Partial<FluidMaskConfig>;
+  // Covering layer content: text runs, an image URL or inline SVG. Takes
+  // precedence over overlayText/overlaySubtext, which remain as a shorthand.
+  overlay?: OverlayContent;
   overlayText?: string;
   overlaySubtext?: string;
+  // DOM content rasterized into the covering layer; takes precedence over the
+  // overlay props, which are used instead if rasterization fails
+  children?: ReactNode;
+  // Shown instead of the cover when neither WebGL nor the CSS spotlight is available
+  poster?: ReactNode;
+  // Forces a tier of the fallback chain instead of detecting it
+  renderer?: FluidRenderer;
   onReady?: () => void;
+  onContextLost?: () => void;
+  onContextRestored?: () => void;
+  // Called with the adaptive quality tier (index into qualityTiers) whenever it changes
+  onQualityChange?: (tier: number, settings: QualityTier) => void;
+  // Percentage (0-100) of the overlay revealed, measured a few times a second
+  onCoverageChange?: (percent: number) => void;
+  // Percentage at which onRevealThreshold fires, once per mount (default 50)
+  revealThreshold?: number;
+  onRevealThreshold?: (percent: number) => void;
+  // Image whose opaque pixels are obstacles, stretched over the canvas; shapes
+  // go in config.obstacles
+  obstacleImage?: TexImageSource | null;
+  // Dye and velocity to start from, e.g. a known state for tests
+  snapshot?: FluidSnapshot | null;
+  // sessionStorage key the state is saved under on unmount and pagehide, and
+  // restored from on mount in preference to snapshot
+  snapshotKey?: string;
+  // Input session to play back from a cleared simulation instead of live
+  // input. Frames match the recorded ones at the recorded canvas size.
+  replay?: FluidRecording | null;
+  replayLoop?: boolean;
+  onReplayEnd?: () => void;
+  // Records pointer input and config changes while true, from a cleared
+  // simulation; onRecording receives the JSON-safe result
+  record?: boolean;
+  onRecording?: (recording: FluidRecording) => void;
+}
+
+// Pauses the frame loop while the WebGL context is lost or the scene is not
+// visible. three.js rebuilds its GL state on restore and re-uploads targets
+// and textures on next use, so the plane keeps its config and pointer state
+// without remounting. R3F restarts its clock on resume, so paused time is
+// skipped rather than simulated.
+function FrameloopController({
+  paused = false,
+  onContextLost,
+  onContextRestored,
+}: {
+  paused?: boolean;
+  onContextLost?: () => void;
+  onContextRestored?: () => void;
+}) {
+  const { gl, setFrameloop } = useThree();
+  const [contextLost, setContextLost] = useState(false);
+  const onContextLostRef = useRef(onContextLost);
+  const onContextRestoredRef = useRef(onContextRestored);
+  onContextLostRef.current = onContextLost;
+  onContextRestoredRef.current = onContextRestored;
+
+  useEffect(() => {
+    setFrameloop(paused || contextLost ? "never" : "always");
+  }, [paused, contextLost, setFrameloop]);
+
+  useEffect(() => {
+    const canvas = gl.domElement;
+
+    const handleContextLost = (e: Event) => {
+      e.preventDefault();
+      setContextLost(true);
+      onContextLostRef.current?.();
+    };
+
+    const handleContextRestored = () => {
+      setContextLost(false);
+      onContextRestoredRef.current?.();
+    };
+
+    canvas.addEventListener("webglcontextlost", handleContextLost);
+    canvas.addEventListener("webglcontextrestored", handleContextRestored);
+    return () => {
+      canvas.removeEventListener("webglcontextlost", handleContextLost);
+      canvas.removeEventListener("webglcontextrestored", handleContextRestored);
+    };
+  }, [gl]);
+
+  return null;
 }
 
 function FluidMaskPlaneWithTexture({ 
   config, 
+  contentCanvas,
+  overlay,
   overlayText, 
   overlaySubtext,
   onReady,
+  ...planeProps
 }: { 
   config?: Partial<FluidMaskConfig>; 
+  // Rasterized children; null while pending, undefined to draw the overlay instead
+  contentCanvas?: HTMLCanvasElement | null;
+  overlay?: OverlayContent;
   overlayText?: string;
   overlaySubtext?: string;
   onReady?: () => void;
-}) {
+} & Omit<FluidMaskPlaneProps, "config" | "baseTexture">) {
   const { size } = useThree();
   const [baseTexture, setBaseTexture] = useState<THREE.Texture | null>(null);
   const textureRef = useRef<THREE.CanvasTexture | null>(null);
+  // The replaced texture stays alive while the plane crossfades away from it
+  const previousTextureRef = useRef<THREE.CanvasTexture | null>(null);
   const hasCalledReady = useRef(false);
+  const themeVersion = useThemeVersion();
+
+  const replaceTexture = useCallback((canvas: HTMLCanvasElement) => {
+    previousTextureRef.current?.dispose();
+    previousTextureRef.current = textureRef.current;
+    const texture = createOverlayTexture(canvas);
+    textureRef.current = texture;
+    setBaseTexture(texture);
+  }, []);
+
+  useEffect(() => {
+    if (contentCanvas) replaceTexture(contentCanvas);
+  }, [contentCanvas, replaceTexture]);
+
+  // Specs are usually inline literals, so redraw on content rather than identity
+  const content = overlay ?? (overlayText ? createTextOverlay(overlayText, overlaySubtext) : null);
+  const contentKey = content ? JSON.stringify(content) : "";
+  const contentRef = useRef(content);
+  contentRef.current = content;
   
+  const hasChildren = contentCanvas !== undefined;
   useEffect(() => {
-    if (overlayText && size.width > 0 && size.height > 0) {
-      if (textureRef.current) {
-        textureRef.current.dispose();
-      }
-      
-      const texture = createTextTexture(
-        overlayText, 
-        overlaySubtext,
-        size.width,
-        size.height
-      );
-      textureRef.current = texture;
-      setBaseTexture(texture);
-    }
-    
+    const content = contentRef.current;
+    if (hasChildren || !content || size.width === 0 || size.height === 0) return;
+
+    // Fonts and images load asynchronously; a newer draw supersedes this one
+    let cancelled = false;
+    const pixelRatio = Math.min(window.devicePixelRatio || 1, 2);
+    drawOverlay(content, size.width, size.height, pixelRatio).then(
+      (canvas) => {
+        if (!cancelled) replaceTexture(canvas);
+      },
+      (error) => console.error("Failed to draw overlay:", error)
+    );
+
     return () => {
-      if (textureRef.current) {
-        textureRef.current.dispose();
-        textureRef.current = null;
-      }
+      cancelled = true;
+    };
+  }, [hasChildren, contentKey, themeVersion, size.width, size.height, replaceTexture]);
+
+  useEffect(() => {
+    return () => {
+      textureRef.current?.dispose();
+      previousTextureRef.current?.dispose();
+      textureRef.current = null;
+      previousTextureRef.current = null;
     };
-  }, [overlayText, overlaySubtext, size.width, size.height]);
+  }, []);
   
   useFrame(() => {
     if (!hasCalledReady.current && baseTexture && onReady) {
@@ -798,18 +661,195 @@ function FluidMaskPlaneWithTexture({
     }
   });
   
-  return <FluidMaskPlane config={config} baseTexture={baseTexture} />;
+  return <FluidMaskPlane config={config} baseTexture={baseTexture} {...planeProps} />;
+}
+
+// R3F throws from render when the renderer cannot get a context, even when
+// detection found WebGL (blocklisted GPU, context limit reached)
+class CanvasErrorBoundary extends Component<{ onError: (error: Error) => void; children: ReactNode }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+// Rasterizes the children's DOM into a canvas for the base texture, again
+// whenever the content, its size or the theme class on <html> changes.
+// Fails over to the overlay props when the browser cannot rasterize it.
+function useRasterizedContent(enabled: boolean) {
+  const sourceRef = useRef<HTMLDivElement>(null);
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const source = sourceRef.current;
+    if (!enabled || !source) return;
+
+    let cancelled = false;
+    let rasterizeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const rasterize = async () => {
+      const rect = source.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return;
+
+      try {
+        const pixelRatio = Math.min(window.devicePixelRatio || 1, 2);
+        const image = await rasterizeElement(source, rect.width, rect.height, pixelRatio);
+        if (cancelled) return;
+        setCanvas(image);
+      } catch (error) {
+        if (cancelled) return;
+        console.warn("Falling back to the overlay texture:", error);
+        setFailed(true);
+      }
+    };
+
+    // Coalesce bursts of resizes and DOM mutations into one rasterization
+    const scheduleRasterize = () => {
+      if (rasterizeTimeout !== null) clearTimeout(rasterizeTimeout);
+      rasterizeTimeout = setTimeout(rasterize, 100);
+    };
+
+    const resizeObserver = new ResizeObserver(scheduleRasterize);
+    resizeObserver.observe(source);
+
+    const mutationObserver = new MutationObserver(scheduleRasterize);
+    mutationObserver.observe(source, {
+      subtree: true,
+      childList: true,
+      characterData: true,
+      attributes: true,
+    });
+    // next-themes switches themes through the class on <html>
+    mutationObserver.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ["class"],
+    });
+
+    scheduleRasterize();
+
+    return () => {
+      cancelled = true;
+      if (rasterizeTimeout !== null) clearTimeout(rasterizeTimeout);
+      resizeObserver.disconnect();
+      mutationObserver.disconnect();
+    };
+  }, [enabled]);
+
+  return { sourceRef, canvas, failed };
 }
 
 export function FluidMaskScene({ 
   className = "", 
   config,
+  children,
+  overlay,
   overlayText,
   overlaySubtext,
+  poster,
+  renderer: forcedRenderer,
   onReady,
+  onContextLost,
+  onContextRestored,
+  ...planeProps
 }: FluidMaskSceneProps) {
+  // Detected after mount; nothing renders until the tier is known
+  const [renderer, setRenderer] = useState<FluidRenderer | null>(null);
+  useEffect(() => {
+    setRenderer(forcedRenderer ?? detectFluidRenderer());
+  }, [forcedRenderer]);
+  const isWebGL = renderer === "webgl2" || renderer === "webgl";
+  const handleCanvasError = useCallback((error: Error) => {
+    console.warn("Falling back from the WebGL scene:", error);
+    setRenderer(detectFallbackRenderer());
+  }, []);
+
+  const hasChildren = children !== undefined && children !== null;
+  const rasterized = useRasterizedContent(hasChildren && isWebGL);
+  const useChildren = hasChildren && !rasterized.failed;
+
+  if (!renderer) return null;
+
+  if (!isWebGL) {
+    return (
+      <FluidMaskFallback
+        className={className}
+        mode={renderer}
+        overlay={overlay ?? (overlayText ? createTextOverlay(overlayText, overlaySubtext) : null)}
+        poster={poster}
+        onReady={onReady}
+      >
+        {children}
+      </FluidMaskFallback>
+    );
+  }
+
+  return (
+    <CanvasErrorBoundary onError={handleCanvasError}>
+      {/* Rasterization source for the base texture, laid out like the canvas
+          but never shown directly */}
+      {hasChildren && (
+        <div
+          aria-hidden
+          style={{
+            position: "absolute",
+            inset: 0,
+            opacity: 0,
+            pointerEvents: "none",
+          }}
+        >
+          <div ref={rasterized.sourceRef} className="h-full w-full">
+            {children}
+          </div>
+        </div>
+      )}
+      <FluidMaskCanvas
+        className={className}
+        onContextLost={onContextLost}
+        onContextRestored={onContextRestored}
+      >
+        <FluidMaskPlaneWithTexture 
+          config={config} 
+          contentCanvas={useChildren ? rasterized.canvas : undefined}
+          overlay={overlay}
+          overlayText={overlayText}
+          overlaySubtext={overlaySubtext}
+          onReady={onReady}
+          {...planeProps}
+        />
+      </FluidMaskCanvas>
+    </CanvasErrorBoundary>
+  );
+}
+
+// Mounts together with the <Canvas>, so the visibility observer has an
+// element to watch from its first effect on
+function FluidMaskCanvas({
+  className,
+  onContextLost,
+  onContextRestored,
+  children,
+}: {
+  className: string;
+  onContextLost?: () => void;
+  onContextRestored?: () => void;
+  children: ReactNode;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const visible = useFluidVisibility(canvasRef);
+
   return (
     <Canvas
+      ref={canvasRef}
       className={className}
       gl={{ 
         alpha: true, 
@@ -823,11 +863,11 @@ export function FluidMaskScene({
         pointerEvents: "none",
       }}
     >
-      <FluidMaskPlaneWithTexture 
-        config={config} 
-        overlayText={overlayText}
-        overlaySubtext={overlaySubtext}
-        onReady={onReady}
+      {children}
+      <FrameloopController
+        paused={!visible}
+        onContextLost={onContextLost}
+        onContextRestored={onContextRestored}
       />
     </Canvas>
   );
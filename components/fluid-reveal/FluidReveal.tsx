@@ -2,56 +2,104 @@
 
 import { useEffect, useRef, useCallback, useState } from "react";
 import { FluidSimulation, FluidConfig, defaultConfig } from "./FluidSimulation";
+import { rasterizeElement } from "./rasterize";
+import { useFluidVisibility } from "./visibility";
+import { detectFallbackRenderer } from "./capabilities";
 
 interface FluidRevealProps {
   baseContent: React.ReactNode;
   revealContent: React.ReactNode;
   config?: Partial<FluidConfig>;
   className?: string;
+  onContextLost?: () => void;
+  onContextRestored?: () => void;
 }
 
-export function FluidReveal({ 
-  baseContent, 
-  revealContent, 
+// "pending": waiting for the first rasterization, nothing is revealed yet.
+// "gpu": the WebGL canvas draws a rasterized copy of revealContent through the mask.
+// "mask": fallback when rasterizing fails, the canvas becomes a throttled CSS mask.
+// "spotlight": no WebGL at all, revealContent shows through a circle at the
+// pointer like ScratchReveal. Without clip-path support only baseContent shows.
+type CompositeMode = "pending" | "gpu" | "mask" | "spotlight";
+
+// Frames between CSS mask refreshes in the fallback mode
+const MASK_UPDATE_INTERVAL = 6;
+
+const SPOTLIGHT_RADIUS = 160;
+
+// The canvas and the rasterized reveal content follow devicePixelRatio up to this
+const MAX_PIXEL_RATIO = 2;
+
+function getPixelRatio(): number {
+  return Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+}
+
+export function FluidReveal({
+  baseContent,
+  revealContent,
   config = {},
-  className = ""
+  className = "",
+  onContextLost,
+  onContextRestored,
 }: FluidRevealProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const revealLayerRef = useRef<HTMLDivElement>(null);
+  const revealSourceRef = useRef<HTMLDivElement>(null);
   const simulationRef = useRef<FluidSimulation | null>(null);
-  const [maskUrl, setMaskUrl] = useState<string>("");
+  const [mode, setMode] = useState<CompositeMode>("pending");
+  const modeRef = useRef<CompositeMode>("pending");
+  const configRef = useRef(config);
+  configRef.current = config;
+  const onContextLostRef = useRef(onContextLost);
+  const onContextRestoredRef = useRef(onContextRestored);
+  onContextLostRef.current = onContextLost;
+  onContextRestoredRef.current = onContextRestored;
+
+  // The render loop only runs while the tab is visible and the container is
+  // onscreen and uncovered
+  const visible = useFluidVisibility(containerRef);
+  const visibleRef = useRef(visible);
+  visibleRef.current = visible;
+  const loopControlRef = useRef<{ start: () => void; stop: () => void } | null>(null);
 
   const handlePointerMove = useCallback((e: PointerEvent) => {
     if (!simulationRef.current || !containerRef.current) return;
-    
+
+    // Canvas pixels, which are device pixels up to MAX_PIXEL_RATIO
     const rect = containerRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    const pixelRatio = canvasRef.current && rect.width > 0 ? canvasRef.current.width / rect.width : 1;
+    const x = (e.clientX - rect.left) * pixelRatio;
+    const y = (e.clientY - rect.top) * pixelRatio;
 
-    simulationRef.current.updatePointerMoveData(x, y);
+    simulationRef.current.updatePointerMoveData(e.pointerId, x, y);
   }, []);
 
   const handlePointerDown = useCallback((e: PointerEvent) => {
     if (!simulationRef.current || !containerRef.current) return;
-    
+
+    // Canvas pixels, which are device pixels up to MAX_PIXEL_RATIO
     const rect = containerRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    const pixelRatio = canvasRef.current && rect.width > 0 ? canvasRef.current.width / rect.width : 1;
+    const x = (e.clientX - rect.left) * pixelRatio;
+    const y = (e.clientY - rect.top) * pixelRatio;
 
-    simulationRef.current.updatePointerDownData(x, y);
+    simulationRef.current.updatePointerDownData(e.pointerId, x, y);
   }, []);
 
-  const handlePointerUp = useCallback(() => {
+  const handlePointerUp = useCallback((e: PointerEvent) => {
     if (!simulationRef.current) return;
-    simulationRef.current.updatePointerUpData();
+    simulationRef.current.updatePointerUpData(e.pointerId);
   }, []);
 
-  // Copy WebGL canvas to 2D canvas for mask
+  // Fallback only: copy the WebGL canvas into a CSS mask, written straight to
+  // the DOM so it never goes through React state
   const updateMask = useCallback(() => {
     const canvas = canvasRef.current;
     const maskCanvas = maskCanvasRef.current;
-    if (!canvas || !maskCanvas) return;
+    const revealLayer = revealLayerRef.current;
+    if (!canvas || !maskCanvas || !revealLayer) return;
 
     const ctx = maskCanvas.getContext("2d");
     if (!ctx) return;
@@ -63,10 +111,18 @@ export function FluidReveal({
     }
 
     // Draw the WebGL canvas onto the 2D canvas
+    ctx.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
     ctx.drawImage(canvas, 0, 0);
 
-    // Update mask URL for CSS
-    setMaskUrl(maskCanvas.toDataURL());
+    const maskImage = `url(${maskCanvas.toDataURL()})`;
+    revealLayer.style.webkitMaskImage = maskImage;
+    revealLayer.style.maskImage = maskImage;
+  }, []);
+
+  const switchMode = useCallback((next: CompositeMode) => {
+    if (modeRef.current === next) return;
+    modeRef.current = next;
+    setMode(next);
   }, []);
 
   useEffect(() => {
@@ -76,48 +132,155 @@ export function FluidReveal({
 
     // Set initial canvas size
     const rect = container.getBoundingClientRect();
-    canvas.width = rect.width;
-    canvas.height = rect.height;
+    const pixelRatio = getPixelRatio();
+    canvas.width = Math.floor(rect.width * pixelRatio);
+    canvas.height = Math.floor(rect.height * pixelRatio);
+
+    // Render loop - the canvas itself is the composited reveal layer
+    let animationFrameId: number | null = null;
+    let lastFrameTime = 0;
+    let frame = 0;
+    const loop = () => {
+      const now = performance.now();
+      if (simulationRef.current) {
+        simulationRef.current.update((now - lastFrameTime) / 1000);
+        if (modeRef.current === "mask" && frame++ % MASK_UPDATE_INTERVAL === 0) {
+          updateMask();
+        }
+      }
+      lastFrameTime = now;
+      animationFrameId = requestAnimationFrame(loop);
+    };
+
+    // Time spent paused is skipped rather than simulated
+    const startLoop = () => {
+      if (animationFrameId !== null || !visibleRef.current) return;
+      if (simulationRef.current?.isContextLost()) return;
+      lastFrameTime = performance.now();
+      loop();
+    };
+
+    const stopLoop = () => {
+      if (animationFrameId !== null) cancelAnimationFrame(animationFrameId);
+      animationFrameId = null;
+    };
 
     // Initialize simulation
     try {
       simulationRef.current = new FluidSimulation(canvas, {
         ...defaultConfig,
-        ...config,
+        ...configRef.current,
+      }, {
+        // Pause the loop while the GPU context is gone, resume once rebuilt
+        onContextLost: () => {
+          stopLoop();
+          onContextLostRef.current?.();
+        },
+        onContextRestored: () => {
+          startLoop();
+          onContextRestoredRef.current?.();
+        },
       });
     } catch (error) {
       console.error("Failed to initialize fluid simulation:", error);
+      if (detectFallbackRenderer() === "css") switchMode("spotlight");
       return;
     }
 
-    // Custom render loop that updates the mask
-    let animationFrameId: number;
-    const loop = () => {
-      if (simulationRef.current) {
-        simulationRef.current.update();
-        updateMask();
-      }
-      animationFrameId = requestAnimationFrame(loop);
-    };
-    loop();
+    loopControlRef.current = { start: startLoop, stop: stopLoop };
+    startLoop();
 
     // Add event listeners
     container.addEventListener("pointermove", handlePointerMove);
     container.addEventListener("pointerdown", handlePointerDown);
     window.addEventListener("pointerup", handlePointerUp);
+    window.addEventListener("pointercancel", handlePointerUp);
 
     return () => {
-      cancelAnimationFrame(animationFrameId);
+      stopLoop();
+      loopControlRef.current = null;
+      simulationRef.current?.dispose();
+      simulationRef.current = null;
       container.removeEventListener("pointermove", handlePointerMove);
       container.removeEventListener("pointerdown", handlePointerDown);
       window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handlePointerUp);
+    };
+  }, [handlePointerMove, handlePointerDown, handlePointerUp, updateMask, switchMode]);
+
+  // Spotlight fallback: track the pointer in React state, it is cheap without WebGL
+  const [spotlight, setSpotlight] = useState<{ x: number; y: number } | null>(null);
+  useEffect(() => {
+    const container = containerRef.current;
+    if (mode !== "spotlight" || !container) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const rect = container.getBoundingClientRect();
+      setSpotlight({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    const handleLeave = () => setSpotlight(null);
+
+    container.addEventListener("pointermove", handleMove);
+    container.addEventListener("pointerdown", handleMove);
+    container.addEventListener("pointerleave", handleLeave);
+    return () => {
+      container.removeEventListener("pointermove", handleMove);
+      container.removeEventListener("pointerdown", handleMove);
+      container.removeEventListener("pointerleave", handleLeave);
     };
-  }, [config, handlePointerMove, handlePointerDown, handlePointerUp, updateMask]);
+  }, [mode]);
 
-  // Handle resize
+  useEffect(() => {
+    if (visible) {
+      loopControlRef.current?.start();
+    } else {
+      loopControlRef.current?.stop();
+    }
+  }, [visible]);
+
+  // Update config without recreating the simulation and its GL resources
+  useEffect(() => {
+    simulationRef.current?.updateConfig(config);
+  }, [config]);
+
+  // Handle resize and keep the rasterized reveal texture in sync with its DOM
   useEffect(() => {
     const container = containerRef.current;
-    if (!container) return;
+    const revealSource = revealSourceRef.current;
+    if (!container || !revealSource) return;
+
+    let cancelled = false;
+    let rasterizeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const rasterize = async () => {
+      const simulation = simulationRef.current;
+      if (!simulation) return;
+
+      const rect = container.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return;
+
+      // Rasterized at the canvas's resolution so the revealed content stays sharp
+      const canvas = canvasRef.current;
+      const pixelRatio = canvas ? Math.min(getPixelRatio(), canvas.width / rect.width) : 1;
+
+      try {
+        const image = await rasterizeElement(revealSource, rect.width, rect.height, pixelRatio);
+        if (cancelled) return;
+        simulation.setRevealSource(image);
+        switchMode("gpu");
+      } catch (error) {
+        if (cancelled) return;
+        console.warn("Falling back to CSS mask compositing:", error);
+        simulation.setRevealSource(null);
+        switchMode("mask");
+      }
+    };
+
+    // Coalesce bursts of resizes and DOM mutations into one rasterization
+    const scheduleRasterize = () => {
+      if (rasterizeTimeout !== null) clearTimeout(rasterizeTimeout);
+      rasterizeTimeout = setTimeout(rasterize, 100);
+    };
 
     const resizeObserver = new ResizeObserver(() => {
       const canvas = canvasRef.current;
@@ -125,18 +288,35 @@ export function FluidReveal({
       if (!canvas || !container) return;
 
       const rect = container.getBoundingClientRect();
-      canvas.width = rect.width;
-      canvas.height = rect.height;
-      
+      const pixelRatio = getPixelRatio();
+      canvas.width = Math.floor(rect.width * pixelRatio);
+      canvas.height = Math.floor(rect.height * pixelRatio);
+
       if (maskCanvas) {
-        maskCanvas.width = rect.width;
-        maskCanvas.height = rect.height;
+        maskCanvas.width = canvas.width;
+        maskCanvas.height = canvas.height;
       }
+      scheduleRasterize();
+    });
+
+    const mutationObserver = new MutationObserver(scheduleRasterize);
+    mutationObserver.observe(revealSource, {
+      subtree: true,
+      childList: true,
+      characterData: true,
+      attributes: true,
     });
 
     resizeObserver.observe(container);
-    return () => resizeObserver.disconnect();
-  }, []);
+    scheduleRasterize();
+
+    return () => {
+      cancelled = true;
+      if (rasterizeTimeout !== null) clearTimeout(rasterizeTimeout);
+      resizeObserver.disconnect();
+      mutationObserver.disconnect();
+    };
+  }, [switchMode]);
 
   return (
     <div ref={containerRef} className={`relative overflow-hidden ${className}`}>
@@ -145,27 +325,36 @@ export function FluidReveal({
         {baseContent}
       </div>
 
-      {/* Reveal content - masked by fluid */}
-      <div 
-        className="absolute inset-0 z-20"
-        style={{
-          WebkitMaskImage: maskUrl ? `url(${maskUrl})` : "none",
-          maskImage: maskUrl ? `url(${maskUrl})` : "none",
+      {/* Reveal content - rasterization source for the canvas, only shown
+          directly (behind a CSS mask) in the fallback mode. Otherwise it stays
+          invisible but interactive, so its links and buttons still work. */}
+      <div
+        ref={revealLayerRef}
+        className="absolute inset-0 z-10"
+        style={mode === "mask" ? {
           WebkitMaskSize: "100% 100%",
           maskSize: "100% 100%",
+        } : mode === "spotlight" ? {
+          clipPath: `circle(${spotlight ? SPOTLIGHT_RADIUS : 0}px at ${spotlight?.x ?? 0}px ${spotlight?.y ?? 0}px)`,
+          transition: spotlight ? "clip-path 0.05s ease-out" : "clip-path 0.2s ease-out",
+          pointerEvents: "none",
+        } : {
+          opacity: 0,
         }}
       >
-        {revealContent}
+        <div ref={revealSourceRef} className="h-full w-full">
+          {revealContent}
+        </div>
       </div>
 
-      {/* Hidden WebGL canvas */}
+      {/* WebGL canvas - composites the reveal content through the fluid mask */}
       <canvas
         ref={canvasRef}
-        className="absolute inset-0 z-10 pointer-events-none opacity-0"
-        style={{ visibility: "hidden" }}
+        className="absolute inset-0 z-20 pointer-events-none"
+        style={{ opacity: mode === "gpu" ? 1 : 0 }}
       />
 
-      {/* Hidden 2D canvas for mask generation */}
+      {/* Hidden 2D canvas for the fallback mask */}
       <canvas
         ref={maskCanvasRef}
         className="hidden"
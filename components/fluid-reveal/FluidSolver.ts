@@ -0,0 +1,1787 @@
+import {
+  clearShader,
+  copyShader,
+  splatShader,
+  advectionShader,
+  divergenceShader,
+  curlShader,
+  vorticityShader,
+  pressureShader,
+  gradientSubtractShader,
+  coverageShader,
+  obstacleShader,
+  obstacleImageShader,
+  advectionCorrectionShader,
+  residualRestrictShader,
+  prolongShader,
+  bloomPrefilterShader,
+  bloomBlurShader,
+  sunraysMaskShader,
+  sunraysShader,
+  snapshotEncodeShader,
+  snapshotDecodeShader,
+} from "./shaders";
+import type { FluidRecordedInput, FluidRecording, FluidReplayOptions } from "./recording";
+
+// =============================================================================
+// CONFIG & TYPES
+// =============================================================================
+
+export interface FluidConfig {
+  simResolution: number;
+  dyeResolution: number;
+  densityDissipation: number;
+  velocityDissipation: number;
+  pressure: number;
+  pressureIterations: number;
+  curl: number;
+  splatRadius: number;
+  /** Widens splats on landscape canvases, so splatRadius is relative to the width there */
+  aspectScaledRadius: boolean;
+  /** Dye splat radius as a fraction of the velocity splat's */
+  dyeSplatRadius: number;
+  /**
+   * What a unit of velocity moves the dye by: "simulation" texels, like the
+   * velocity itself, or "dye" texels, which carries it dyeResolution /
+   * simResolution times less far. FluidMaskScene's strokes use "dye".
+   */
+  dyeAdvection: "simulation" | "dye";
+  splatForce: number;
+  colorR: number;
+  colorG: number;
+  colorB: number;
+  /**
+   * How strokes pick their dye. "fixed" is colorR/G/B. "palette" takes the
+   * next palette colour for each stroke; "theme" does the same with the CSS
+   * colours in themeColors, which FluidCanvas and FluidMaskScene resolve into
+   * palette. "hue" cycles the hue at hueSpeed turns per second, and
+   * "velocity" runs through the palette as the stroke speeds up, reaching
+   * the last colour at velocityColorScale (a pointer delta, like dx/dy).
+   */
+  colorMode: FluidColorMode;
+  palette: FluidColor[];
+  themeColors: string[];
+  hueSpeed: number;
+  velocityColorScale: number;
+  /** Multiplies every colour except "fixed", which is already a strength */
+  dyeIntensity: number;
+  /**
+   * Step the simulation in fixed increments so it runs at the same speed at
+   * any frame rate. Off by default: the displayed state is not interpolated
+   * between steps, so displays faster than 1/timestep repeat frames.
+   */
+  fixedTimestep: boolean;
+  /** Seconds per simulation step */
+  timestep: number;
+  /** Most steps run in one frame before the backlog is dropped */
+  maxSubsteps: number;
+  /** Solid shapes the fluid flows around and dye never enters */
+  obstacles: FluidObstacle[];
+  /** "no-slip" stops flow along obstacle faces, "free-slip" only through them */
+  obstacleBoundary: "no-slip" | "free-slip";
+  /**
+   * "maccormack" and "bfecc" correct semi-Lagrangian advection's blur with a
+   * limited back-and-forth error estimate. Each costs two extra passes per
+   * field per step ("bfecc" three) and keeps edges crisper at low resolutions.
+   */
+  advection: FluidAdvectionScheme;
+  /**
+   * "jacobi" runs pressureIterations passes at full resolution. "multigrid"
+   * runs pressureCycles V-cycles instead, each with two smoothing passes
+   * before and after the coarse correction at every level. The target is the
+   * divergence left by the hero's 40 Jacobi passes: a V-cycle typically cuts
+   * the residual about tenfold at any resolution, while Jacobi barely touches
+   * large-scale error, so 2 cycles (8 full-resolution passes) get there.
+   */
+  pressureSolver: "jacobi" | "multigrid";
+  pressureCycles: number;
+  /**
+   * Glow around bright dye. Dye above bloomThreshold (softened over
+   * bloomSoftKnee, 0-1, of it) is blurred across bloomIterations halvings of
+   * a bloomResolution target and added on top by the display shader.
+   */
+  bloom: boolean;
+  bloomIterations: number;
+  bloomResolution: number;
+  bloomIntensity: number;
+  bloomThreshold: number;
+  bloomSoftKnee: number;
+  /** Light shafts from the centre that dye casts shadows into */
+  sunrays: boolean;
+  sunraysResolution: number;
+  /** How dark the shadows in the rays get, 0-1 */
+  sunraysWeight: number;
+  /** Screen-space noise that breaks up 8-bit banding in soft gradients */
+  dithering: boolean;
+}
+
+export type FluidAdvectionScheme = "semi-lagrangian" | "maccormack" | "bfecc";
+
+export type FluidColorMode = "fixed" | "palette" | "theme" | "hue" | "velocity";
+
+export const defaultConfig: FluidConfig = {
+  simResolution: 128,
+  dyeResolution: 512,
+  densityDissipation: 0.97,
+  velocityDissipation: 0.98,
+  pressure: 0.8,
+  pressureIterations: 20,
+  curl: 30,
+  splatRadius: 0.25,
+  aspectScaledRadius: true,
+  dyeSplatRadius: 1,
+  dyeAdvection: "simulation",
+  splatForce: 6000,
+  colorR: 1.0,
+  colorG: 1.0,
+  colorB: 1.0,
+  colorMode: "fixed",
+  palette: [
+    { r: 0.15, g: 0.45, b: 1.0 },
+    { r: 0.55, g: 0.25, b: 1.0 },
+    { r: 1.0, g: 0.3, b: 0.5 },
+    { r: 1.0, g: 0.65, b: 0.2 },
+  ],
+  themeColors: ["--foreground", "--muted"],
+  hueSpeed: 0.1,
+  velocityColorScale: 0.02,
+  dyeIntensity: 1.0,
+  fixedTimestep: false,
+  timestep: 1 / 60,
+  maxSubsteps: 4,
+  obstacles: [],
+  obstacleBoundary: "free-slip",
+  advection: "semi-lagrangian",
+  pressureSolver: "jacobi",
+  pressureCycles: 2,
+  bloom: false,
+  bloomIterations: 8,
+  bloomResolution: 256,
+  bloomIntensity: 0.8,
+  bloomThreshold: 0.6,
+  bloomSoftKnee: 0.7,
+  sunrays: false,
+  sunraysResolution: 196,
+  sunraysWeight: 0.7,
+  dithering: false,
+};
+
+export interface FluidColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface FluidPoint {
+  x: number;
+  y: number;
+}
+
+function hsvToRgb(h: number, s: number, v: number): FluidColor {
+  const i = Math.floor(h * 6);
+  const f = h * 6 - i;
+  const p = v * (1 - s);
+  const q = v * (1 - f * s);
+  const t = v * (1 - (1 - f) * s);
+  switch (((i % 6) + 6) % 6) {
+    case 0: return { r: v, g: t, b: p };
+    case 1: return { r: q, g: v, b: p };
+    case 2: return { r: p, g: v, b: t };
+    case 3: return { r: p, g: q, b: v };
+    case 4: return { r: t, g: p, b: v };
+    default: return { r: v, g: p, b: q };
+  }
+}
+
+// Linear gradient through the palette for t in 0-1
+function samplePalette(palette: FluidColor[], t: number): FluidColor {
+  const position = Math.min(Math.max(t, 0), 1) * (palette.length - 1);
+  const index = Math.min(Math.floor(position), palette.length - 2);
+  if (index < 0) return palette[0];
+  const a = palette[index];
+  const b = palette[index + 1];
+  const f = position - index;
+  return { r: a.r + (b.r - a.r) * f, g: a.g + (b.g - a.g) * f, b: a.b + (b.b - a.b) * f };
+}
+
+/**
+ * Obstacle shape, normalized to the canvas (0-1) with the origin at the
+ * top-left. Rectangles are given by their top-left corner like a DOMRect;
+ * a circle's radius is a fraction of the canvas height.
+ */
+export type FluidObstacle =
+  | { type: "rect"; x: number; y: number; width: number; height: number }
+  | { type: "circle"; x: number; y: number; radius: number };
+
+function sameObstacles(a: FluidObstacle[], b: FluidObstacle[]): boolean {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  return a.every((obstacle, i) => {
+    const other = b[i] as Record<string, unknown>;
+    return Object.entries(obstacle).every(([key, value]) => other[key] === value);
+  });
+}
+
+// Arrays (colours, palettes, obstacle lists) are compared one level deep,
+// since renderers rebuild them on re-render but rarely per frame
+function sameConfigValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+  return a.every((value, i) => value === b[i]);
+}
+
+/**
+ * A named source that keeps splatting on its own. Coordinates are normalized
+ * to the canvas (0-1) with the origin at the top-left, like DOM coordinates.
+ */
+export interface FluidEmitterOptions {
+  /** Fixed emission point, used when no path is given */
+  position?: FluidPoint;
+  /** Polyline the emitter travels along */
+  path?: FluidPoint[];
+  /** Seconds to travel the whole path once */
+  pathDuration?: number;
+  /** Restart the path when it ends instead of removing the emitter */
+  loop?: boolean;
+  /** Splats per second */
+  rate?: number;
+  /** Emission angle in radians (0 = right, PI / 2 = down). Defaults to the travel direction on a path */
+  direction?: number;
+  /** Length of each splat's push, as a fraction of the canvas like a pointer delta */
+  force?: number;
+  /** Dye colour, defaults to a stroke colour picked by colorMode */
+  color?: FluidColor;
+  /** Seconds before the emitter removes itself */
+  duration?: number;
+}
+
+interface EmitterState {
+  options: FluidEmitterOptions;
+  elapsed: number;
+  pending: number;
+  // Stroke colour when options.color is not set
+  color: FluidColor;
+}
+
+interface PointerData {
+  id: number;
+  texcoordX: number;
+  texcoordY: number;
+  prevTexcoordX: number;
+  prevTexcoordY: number;
+  deltaX: number;
+  deltaY: number;
+  down: boolean;
+  moved: boolean;
+  released: boolean;
+  color: FluidColor;
+  radiusScale: number;
+}
+
+// =============================================================================
+// BACKEND CONTRACT
+// Renderers (raw WebGL, three.js) implement this so the solver never touches
+// GL directly. Every pass is a full-screen draw of one fragment shader from
+// shaders.ts into a target.
+// =============================================================================
+
+export interface FluidTarget {
+  width: number;
+  height: number;
+  texelSizeX: number;
+  texelSizeY: number;
+}
+
+/** "rgba8" is an 8-bit target the backend can read back; the others are float */
+export type FluidTargetFormat = "rgba" | "rg" | "r" | "rgba8";
+
+export type FluidUniformValue<Target> = number | [number, number] | [number, number, number] | Target;
+
+export type FluidUniforms<Target> = Record<string, FluidUniformValue<Target>>;
+
+export interface FluidBackend<Target extends FluidTarget, Program> {
+  /** Whether float targets can be sampled with linear filtering */
+  readonly supportLinearFiltering: boolean;
+  /** Size of the drawing buffer in pixels */
+  getSize(): { width: number; height: number };
+  createProgram(fragmentShader: string, keywords?: string[]): Program;
+  deleteProgram(program: Program): void;
+  createTarget(width: number, height: number, format: FluidTargetFormat, linear: boolean): Target;
+  deleteTarget(target: Target): void;
+  /** Reads an "rgba8" target back as RGBA bytes */
+  readTarget(target: Target): Uint8Array;
+  /** Uploads an image (flipped to texture space, premultiplied) into a sampleable target */
+  uploadImage(source: TexImageSource, target?: Target | null): Target;
+  /** Creates an "rgba8" target from raw RGBA bytes laid out like readTarget() returns them */
+  uploadData(data: Uint8Array, width: number, height: number, linear: boolean): Target;
+  /** Draws a full-screen pass into target, or onto the canvas when target is null */
+  draw(program: Program, uniforms: FluidUniforms<Target>, target: Target | null): void;
+}
+
+/** One field packed into RGBA bytes, rows bottom-up as read from the GPU */
+export interface FluidFieldData {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Dye and velocity packed by readFields(). Dye bytes are sqrt(value /
+ * dyeScale); velocity packs each component into 16 bits over
+ * -velocityScale..velocityScale.
+ */
+export interface FluidFields {
+  dye: FluidFieldData;
+  velocity: FluidFieldData;
+  dyeScale: number;
+  velocityScale: number;
+}
+
+export interface FluidDoubleTarget<Target extends FluidTarget> {
+  width: number;
+  height: number;
+  texelSizeX: number;
+  texelSizeY: number;
+  read: Target;
+  write: Target;
+  swap: () => void;
+}
+
+interface SolverPrograms<Program> {
+  copy: Program;
+  clear: Program;
+  splat: Program;
+  advection: Program;
+  advectionLimited: Program;
+  advectionCorrection: Program;
+  advectionCorrectionLimited: Program;
+  divergence: Program;
+  curl: Program;
+  vorticity: Program;
+  pressure: Program;
+  pressureCoarse: Program;
+  residualRestrict: Program;
+  prolong: Program;
+  gradientSubtract: Program;
+  coverageFirst: Program;
+  coverage: Program;
+  obstacle: Program;
+  obstacleImage: Program;
+  bloomPrefilter: Program;
+  bloomBlur: Program;
+  bloomAccumulate: Program;
+  sunraysMask: Program;
+  sunrays: Program;
+  encodeDye: Program;
+  encodeVelocity: Program;
+  decodeDye: Program;
+  decodeVelocity: Program;
+}
+
+// Snapshot ranges: dye brighter than this saturates, and faster velocity is clamped
+const SNAPSHOT_DYE_SCALE = 4;
+const SNAPSHOT_VELOCITY_SCALE = 4096;
+
+// Coverage is reduced until both sides are at most this many texels
+const COVERAGE_SIZE = 16;
+
+// Multigrid: levels stop halving at this size, where plain Jacobi converges fast
+const MULTIGRID_COARSEST = 8;
+const MULTIGRID_SMOOTHING = 2;
+const MULTIGRID_COARSE_ITERATIONS = 16;
+
+// A coarser grid solving for the error of the level above it
+interface MultigridLevel<Target extends FluidTarget> {
+  error: FluidDoubleTarget<Target>;
+  rhs: Target;
+}
+
+// =============================================================================
+// SOLVER
+// =============================================================================
+
+/**
+ * Navier-Stokes solver shared by every fluid renderer. Owns the simulation
+ * targets, pointer and emitter state; renderers only display `dye`.
+ */
+export class FluidSolver<Target extends FluidTarget = FluidTarget, Program = unknown> {
+  private backend: FluidBackend<Target, Program>;
+  private config: FluidConfig;
+
+  // Targets (created lazily, reused across resizes)
+  private hasTargets = false;
+  private dyeTarget!: FluidDoubleTarget<Target>;
+  private velocity!: FluidDoubleTarget<Target>;
+  private divergence!: Target;
+  private curl!: Target;
+  private pressure!: FluidDoubleTarget<Target>;
+
+  private programs!: SolverPrograms<Program>;
+
+  // Obstacle mask at sim resolution, only allocated while there are obstacles
+  private obstacleMask: FluidDoubleTarget<Target> | null = null;
+  private obstacleImage: Target | null = null;
+  private obstacleImageSource: TexImageSource | null = null;
+
+  // Coarse levels for the multigrid pressure solver, built for the sim size
+  private multigridLevels: MultigridLevel<Target>[] = [];
+
+  // Intermediate fields for the corrected advection schemes, per field size
+  private scratchTargets = new Map<string, Target[]>();
+
+  // Post effects, only allocated while enabled. bloomLevels halve on the way
+  // down; bloomUpLevels match all but the last one on the way back up.
+  private bloomLevels: Target[] = [];
+  private bloomUpLevels: Target[] = [];
+  private bloomIterations = 0;
+  // Occlusion mask, radial blur and its blurred copy
+  private sunraysTargets: Target[] = [];
+
+  // Reduction chain for measureCoverage(), sized from the dye it was built for
+  private coverageLevels: Target[] = [];
+  private coverageSourceWidth = 0;
+  private coverageSourceHeight = 0;
+
+  // Pointer tracking, keyed by PointerEvent.pointerId
+  private pointers = new Map<number, PointerData>();
+  private emitters = new Map<string, EmitterState>();
+
+  // Dye colour state: the palette entry of the latest stroke
+  private paletteIndex = -1;
+
+  // Steps run and seconds simulated since creation or reset(); "hue" mode
+  // cycles on the time, recordings are keyed to the step count
+  private stepCount = 0;
+  private simulationTime = 0;
+
+  // Input recording and replay. While a replay runs, calls from outside are
+  // ignored so live input cannot change the outcome.
+  private recording: FluidRecording | null = null;
+  private replayState: { recording: FluidRecording; index: number; options: FluidReplayOptions } | null = null;
+  private applyingReplay = false;
+
+  private lastWidth = 0;
+  private lastHeight = 0;
+
+  // Frame time not yet simulated in fixed-timestep mode
+  private accumulator = 0;
+
+  constructor(backend: FluidBackend<Target, Program>, config: Partial<FluidConfig> = {}) {
+    this.backend = backend;
+    this.config = { ...defaultConfig, ...config };
+    this.initPrograms();
+    this.initTargets();
+  }
+
+  /** Current dye field, for renderers to display */
+  public get dye(): Target {
+    return this.dyeTarget.read;
+  }
+
+  public getConfig(): FluidConfig {
+    return this.config;
+  }
+
+  private hasObstacles(): boolean {
+    return this.config.obstacles.length > 0 || this.obstacleImageSource !== null;
+  }
+
+  private initPrograms(): void {
+    const backend = this.backend;
+    const obstacles = this.hasObstacles() ? ["OBSTACLES"] : [];
+    const noSlip = obstacles.length > 0 && this.config.obstacleBoundary === "no-slip" ? ["NO_SLIP"] : [];
+    const advection = [...obstacles, ...(backend.supportLinearFiltering ? [] : ["MANUAL_FILTERING"])];
+    this.programs = {
+      copy: backend.createProgram(copyShader),
+      clear: backend.createProgram(clearShader),
+      splat: backend.createProgram(splatShader, obstacles),
+      advection: backend.createProgram(advectionShader, advection),
+      advectionLimited: backend.createProgram(advectionShader, [...advection, "LIMITER"]),
+      advectionCorrection: backend.createProgram(advectionCorrectionShader, obstacles),
+      advectionCorrectionLimited: backend.createProgram(advectionCorrectionShader, [...obstacles, "LIMITER"]),
+      divergence: backend.createProgram(divergenceShader, obstacles),
+      curl: backend.createProgram(curlShader),
+      vorticity: backend.createProgram(vorticityShader),
+      pressure: backend.createProgram(pressureShader, obstacles),
+      pressureCoarse: backend.createProgram(pressureShader),
+      residualRestrict: backend.createProgram(residualRestrictShader),
+      prolong: backend.createProgram(prolongShader),
+      gradientSubtract: backend.createProgram(gradientSubtractShader, [...obstacles, ...noSlip]),
+      coverageFirst: backend.createProgram(coverageShader, ["REVEAL_CURVE"]),
+      coverage: backend.createProgram(coverageShader),
+      obstacle: backend.createProgram(obstacleShader),
+      obstacleImage: backend.createProgram(obstacleImageShader),
+      bloomPrefilter: backend.createProgram(bloomPrefilterShader),
+      bloomBlur: backend.createProgram(bloomBlurShader),
+      bloomAccumulate: backend.createProgram(bloomBlurShader, ["ACCUMULATE"]),
+      sunraysMask: backend.createProgram(sunraysMaskShader),
+      sunrays: backend.createProgram(sunraysShader),
+      encodeDye: backend.createProgram(snapshotEncodeShader),
+      encodeVelocity: backend.createProgram(snapshotEncodeShader, ["VELOCITY"]),
+      decodeDye: backend.createProgram(snapshotDecodeShader),
+      decodeVelocity: backend.createProgram(snapshotDecodeShader, ["VELOCITY"]),
+    };
+  }
+
+  private deletePrograms(): void {
+    Object.values(this.programs).forEach((program) => this.backend.deleteProgram(program));
+  }
+
+  private getResolution(resolution: number): { width: number; height: number } {
+    const size = this.backend.getSize();
+    // Square until the backend has been laid out; resize() catches up later
+    let aspectRatio = size.width > 0 && size.height > 0 ? size.width / size.height : 1;
+    if (aspectRatio < 1) {
+      aspectRatio = 1.0 / aspectRatio;
+    }
+
+    const min = Math.round(resolution);
+    const max = Math.round(resolution * aspectRatio);
+
+    if (size.width > size.height) {
+      return { width: max, height: min };
+    } else {
+      return { width: min, height: max };
+    }
+  }
+
+  private createDoubleTarget(w: number, h: number, format: FluidTargetFormat, linear: boolean): FluidDoubleTarget<Target> {
+    let target1 = this.backend.createTarget(w, h, format, linear);
+    let target2 = this.backend.createTarget(w, h, format, linear);
+
+    return {
+      width: w,
+      height: h,
+      texelSizeX: 1.0 / w,
+      texelSizeY: 1.0 / h,
+      get read() {
+        return target1;
+      },
+      set read(value) {
+        target1 = value;
+      },
+      get write() {
+        return target2;
+      },
+      set write(value) {
+        target2 = value;
+      },
+      swap() {
+        const temp = target1;
+        target1 = target2;
+        target2 = temp;
+      },
+    };
+  }
+
+  private deleteDoubleTarget(target: FluidDoubleTarget<Target>): void {
+    this.backend.deleteTarget(target.read);
+    this.backend.deleteTarget(target.write);
+  }
+
+  // Two targets matching a field, reallocated when its size changes
+  private getScratch(name: string, field: FluidDoubleTarget<Target>, format: FluidTargetFormat): Target[] {
+    let scratch = this.scratchTargets.get(name);
+    if (scratch && (scratch[0].width !== field.width || scratch[0].height !== field.height)) {
+      scratch.forEach((target) => this.backend.deleteTarget(target));
+      scratch = undefined;
+    }
+    if (!scratch) {
+      const linear = this.backend.supportLinearFiltering;
+      scratch = [
+        this.backend.createTarget(field.width, field.height, format, linear),
+        this.backend.createTarget(field.width, field.height, format, linear),
+      ];
+      this.scratchTargets.set(name, scratch);
+    }
+    return scratch;
+  }
+
+  private deleteScratchTargets(): void {
+    this.scratchTargets.forEach((scratch) => scratch.forEach((target) => this.backend.deleteTarget(target)));
+    this.scratchTargets.clear();
+  }
+
+  // Copies the old contents into a target of the new size, then frees the old one
+  private resizeTarget(target: Target, w: number, h: number, format: FluidTargetFormat, linear: boolean): Target {
+    const resized = this.backend.createTarget(w, h, format, linear);
+    this.backend.draw(this.programs.copy, { uTexture: target }, resized);
+    this.backend.deleteTarget(target);
+    return resized;
+  }
+
+  private resizeDoubleTarget(target: FluidDoubleTarget<Target>, w: number, h: number, format: FluidTargetFormat, linear: boolean): FluidDoubleTarget<Target> {
+    if (target.width === w && target.height === h) return target;
+    target.read = this.resizeTarget(target.read, w, h, format, linear);
+    this.backend.deleteTarget(target.write);
+    target.write = this.backend.createTarget(w, h, format, linear);
+    target.width = w;
+    target.height = h;
+    target.texelSizeX = 1.0 / w;
+    target.texelSizeY = 1.0 / h;
+    return target;
+  }
+
+  private initTargets(): void {
+    const simRes = this.getResolution(this.config.simResolution);
+    const dyeRes = this.getResolution(this.config.dyeResolution);
+    const linear = this.backend.supportLinearFiltering;
+
+    if (!this.hasTargets) {
+      this.dyeTarget = this.createDoubleTarget(dyeRes.width, dyeRes.height, "rgba", linear);
+      this.velocity = this.createDoubleTarget(simRes.width, simRes.height, "rg", linear);
+      this.hasTargets = true;
+    } else {
+      // Keep the dye and velocity fields, rescaled to the new size
+      this.dyeTarget = this.resizeDoubleTarget(this.dyeTarget, dyeRes.width, dyeRes.height, "rgba", linear);
+      this.velocity = this.resizeDoubleTarget(this.velocity, simRes.width, simRes.height, "rg", linear);
+      if (this.divergence.width !== simRes.width || this.divergence.height !== simRes.height) {
+        this.backend.deleteTarget(this.divergence);
+        this.backend.deleteTarget(this.curl);
+        this.deleteDoubleTarget(this.pressure);
+        this.createSimTargets(simRes.width, simRes.height);
+      }
+      // Circles depend on the aspect ratio, so redraw on every resize
+      this.updateObstacleMask();
+      return;
+    }
+
+    this.createSimTargets(simRes.width, simRes.height);
+    this.updateObstacleMask();
+  }
+
+  private createSimTargets(w: number, h: number): void {
+    this.divergence = this.backend.createTarget(w, h, "r", false);
+    this.curl = this.backend.createTarget(w, h, "r", false);
+    this.pressure = this.createDoubleTarget(w, h, "r", false);
+  }
+
+  // ===========================================================================
+  // Obstacles
+  // ===========================================================================
+
+  private deleteObstacleMask(): void {
+    if (!this.obstacleMask) return;
+    this.deleteDoubleTarget(this.obstacleMask);
+    this.obstacleMask = null;
+  }
+
+  // Redraws the mask from the configured shapes and the obstacle image
+  private updateObstacleMask(): void {
+    if (!this.hasObstacles()) {
+      this.deleteObstacleMask();
+      return;
+    }
+
+    const { width, height } = this.velocity;
+    if (!this.obstacleMask || this.obstacleMask.width !== width || this.obstacleMask.height !== height) {
+      this.deleteObstacleMask();
+      this.obstacleMask = this.createDoubleTarget(width, height, "rgba8", true);
+    }
+
+    const backend = this.backend;
+    const programs = this.programs;
+    const mask = this.obstacleMask;
+    const aspectRatio = this.getAspectRatio();
+
+    backend.draw(programs.clear, { uTexture: mask.read, value: 0 }, mask.write);
+    mask.swap();
+
+    this.config.obstacles.forEach((obstacle) => {
+      const isCircle = obstacle.type === "circle";
+      backend.draw(programs.obstacle, {
+        uTarget: mask.read,
+        aspectRatio: Number.isFinite(aspectRatio) ? aspectRatio : 1,
+        point: isCircle
+          ? [obstacle.x, 1.0 - obstacle.y]
+          : [obstacle.x + obstacle.width / 2, 1.0 - (obstacle.y + obstacle.height / 2)],
+        halfSize: isCircle ? [obstacle.radius, 0] : [obstacle.width / 2, obstacle.height / 2],
+        uCircle: isCircle ? 1 : 0,
+      }, mask.write);
+      mask.swap();
+    });
+
+    if (this.obstacleImage) {
+      backend.draw(programs.obstacleImage, { uTarget: mask.read, uImage: this.obstacleImage }, mask.write);
+      mask.swap();
+    }
+  }
+
+  private getObstacleUniforms(): FluidUniforms<Target> {
+    return this.obstacleMask ? { uObstacles: this.obstacleMask.read } : {};
+  }
+
+  /**
+   * Adds an image to the obstacles, stretched over the canvas: pixels with
+   * alpha above one half are solid. Pass null to remove it.
+   */
+  public setObstacleImage(source: TexImageSource | null): void {
+    const hadObstacles = this.hasObstacles();
+    this.obstacleImageSource = source;
+    if (this.obstacleImage) {
+      this.backend.deleteTarget(this.obstacleImage);
+      this.obstacleImage = null;
+    }
+    if (source) {
+      this.obstacleImage = this.backend.uploadImage(source, null);
+    }
+    if (hadObstacles !== this.hasObstacles()) {
+      this.deletePrograms();
+      this.initPrograms();
+    }
+    this.updateObstacleMask();
+  }
+
+  /** Reinitializes targets when the drawing buffer size changed */
+  public resize(): void {
+    const { width, height } = this.backend.getSize();
+
+    if (width !== this.lastWidth || height !== this.lastHeight) {
+      this.lastWidth = width;
+      this.lastHeight = height;
+      if (width > 0 && height > 0) {
+        this.initTargets();
+      }
+    }
+  }
+
+  /**
+   * Recreates programs and targets after the backend lost its GL objects
+   * (context loss). Config, pointers and emitters are kept.
+   */
+  public rebuild(): void {
+    this.hasTargets = false;
+    this.coverageLevels = [];
+    this.multigridLevels = [];
+    this.scratchTargets.clear();
+    this.bloomLevels = [];
+    this.bloomUpLevels = [];
+    this.sunraysTargets = [];
+    this.obstacleMask = null;
+    this.obstacleImage = this.obstacleImageSource ? this.backend.uploadImage(this.obstacleImageSource, null) : null;
+    const { width, height } = this.backend.getSize();
+    this.lastWidth = width;
+    this.lastHeight = height;
+    this.initPrograms();
+    this.initTargets();
+  }
+
+  public updateConfig(config: Partial<FluidConfig>): void {
+    if (!this.acceptsInput()) return;
+    if (this.recording) {
+      // Replays depend on fixed steps, whatever the renderer passes meanwhile
+      config = { ...config, fixedTimestep: true };
+      this.recordConfig(config);
+    }
+    const previous = this.config;
+    const hadObstacles = this.hasObstacles();
+    this.config = { ...this.config, ...config };
+
+    // Obstacles and the boundary type are compiled into the programs
+    const obstaclesChanged = !sameObstacles(previous.obstacles, this.config.obstacles);
+    if (hadObstacles !== this.hasObstacles() || previous.obstacleBoundary !== this.config.obstacleBoundary) {
+      this.deletePrograms();
+      this.initPrograms();
+    }
+
+    if (this.config.advection === "semi-lagrangian") {
+      this.deleteScratchTargets();
+    }
+    if (this.config.pressureSolver === "jacobi") {
+      this.deleteMultigridLevels();
+    }
+    if (!this.config.bloom) {
+      this.deleteBloomTargets();
+    }
+    if (!this.config.sunrays) {
+      this.deleteSunraysTargets();
+    }
+
+    const resolutionChanged =
+      previous.simResolution !== this.config.simResolution ||
+      previous.dyeResolution !== this.config.dyeResolution;
+    if (resolutionChanged) {
+      this.initTargets();
+    } else if (obstaclesChanged) {
+      this.updateObstacleMask();
+    }
+  }
+
+  // ===========================================================================
+  // Input
+  // ===========================================================================
+
+  private createPointer(id: number): PointerData {
+    return {
+      id,
+      texcoordX: 0,
+      texcoordY: 0,
+      prevTexcoordX: 0,
+      prevTexcoordY: 0,
+      deltaX: 0,
+      deltaY: 0,
+      down: false,
+      moved: false,
+      released: false,
+      color: this.getFixedColor(),
+      radiusScale: 1,
+    };
+  }
+
+  private getPointer(id: number): PointerData {
+    let pointer = this.pointers.get(id);
+    if (!pointer) {
+      pointer = this.createPointer(id);
+      this.pointers.set(id, pointer);
+    }
+    return pointer;
+  }
+
+  /**
+   * Splat radius multiplier for a PointerEvent.pressure. Hovering mice report 0
+   * and pressed ones 0.5, which both map to the configured radius; pens and
+   * force touch scale from half (barely touching) to 1.5x (full pressure).
+   */
+  public static pressureToRadiusScale(pressure?: number): number {
+    if (pressure === undefined || pressure <= 0) return 1;
+    return 0.5 + Math.min(pressure, 1);
+  }
+
+  /**
+   * Pointer positions are texture coordinates: 0-1 with the origin at the
+   * bottom-left. `pressure` is PointerEvent.pressure and scales the splat radius.
+   */
+  public updatePointerDown(id: number, texcoordX: number, texcoordY: number, pressure?: number): void {
+    if (!this.acceptsInput()) return;
+    this.record({ type: "pointerDown", id, x: texcoordX, y: texcoordY, pressure });
+    const pointer = this.getPointer(id);
+    pointer.radiusScale = FluidSolver.pressureToRadiusScale(pressure);
+    pointer.down = true;
+    pointer.moved = false;
+    pointer.released = false;
+    pointer.texcoordX = texcoordX;
+    pointer.texcoordY = texcoordY;
+    pointer.prevTexcoordX = pointer.texcoordX;
+    pointer.prevTexcoordY = pointer.texcoordY;
+    pointer.deltaX = 0;
+    pointer.deltaY = 0;
+    pointer.color = this.nextStrokeColor();
+  }
+
+  public updatePointerMove(id: number, texcoordX: number, texcoordY: number, pressure?: number): void {
+    if (!this.acceptsInput()) return;
+    this.record({ type: "pointerMove", id, x: texcoordX, y: texcoordY, pressure });
+    // A hovering mouse has no pointerdown, so start tracking it on its first move
+    let pointer = this.pointers.get(id);
+    if (!pointer) {
+      pointer = this.getPointer(id);
+      pointer.texcoordX = texcoordX;
+      pointer.texcoordY = texcoordY;
+      pointer.color = this.nextStrokeColor();
+    }
+
+    pointer.prevTexcoordX = pointer.texcoordX;
+    pointer.prevTexcoordY = pointer.texcoordY;
+    pointer.texcoordX = texcoordX;
+    pointer.texcoordY = texcoordY;
+    pointer.released = false;
+    pointer.radiusScale = FluidSolver.pressureToRadiusScale(pressure);
+    // Moves that arrive between steps add up instead of replacing each other
+    const pendingX = pointer.moved ? pointer.deltaX : 0;
+    const pendingY = pointer.moved ? pointer.deltaY : 0;
+    pointer.deltaX = pendingX + this.correctDeltaX(pointer.texcoordX - pointer.prevTexcoordX);
+    pointer.deltaY = pendingY + this.correctDeltaY(pointer.texcoordY - pointer.prevTexcoordY);
+    pointer.moved = Math.abs(pointer.deltaX) > 0 || Math.abs(pointer.deltaY) > 0;
+  }
+
+  public hasPointer(id: number): boolean {
+    return this.pointers.has(id);
+  }
+
+  public updatePointerUp(id: number): void {
+    if (!this.acceptsInput()) return;
+    const pointer = this.pointers.get(id);
+    if (!pointer) return;
+    this.record({ type: "pointerUp", id });
+    // Keep a pointer with a pending move until its last splat has been applied
+    if (pointer.moved) {
+      pointer.down = false;
+      pointer.released = true;
+    } else {
+      this.pointers.delete(id);
+    }
+  }
+
+  // ===========================================================================
+  // Dye colour
+  // ===========================================================================
+
+  private getFixedColor(): FluidColor {
+    return { r: this.config.colorR, g: this.config.colorG, b: this.config.colorB };
+  }
+
+  // Advances the palette for a new pointer stroke or emitter
+  private nextStrokeColor(): FluidColor {
+    const palette = this.config.palette;
+    if (palette.length === 0) return this.getFixedColor();
+    this.paletteIndex = (this.paletteIndex + 1) % palette.length;
+    return palette[this.paletteIndex];
+  }
+
+  private getStrokeColor(): FluidColor {
+    const palette = this.config.palette;
+    if (palette.length === 0) return this.getFixedColor();
+    return palette[Math.max(0, this.paletteIndex) % palette.length];
+  }
+
+  /** Colour of one splat in the current mode; dx/dy are pointer deltas */
+  private getDyeColor(strokeColor: FluidColor, dx: number, dy: number): FluidColor {
+    const { colorMode, palette, dyeIntensity } = this.config;
+    let color: FluidColor;
+    switch (colorMode) {
+      case "palette":
+      case "theme":
+        color = strokeColor;
+        break;
+      case "hue":
+        color = hsvToRgb((this.simulationTime * this.config.hueSpeed) % 1, 1, 1);
+        break;
+      case "velocity":
+        if (palette.length === 0) return this.getFixedColor();
+        color = samplePalette(palette, Math.hypot(dx, dy) / Math.max(this.config.velocityColorScale, 1e-6));
+        break;
+      default:
+        return this.getFixedColor();
+    }
+    return { r: color.r * dyeIntensity, g: color.g * dyeIntensity, b: color.b * dyeIntensity };
+  }
+
+  private getAspectRatio(): number {
+    const size = this.backend.getSize();
+    return size.width / size.height;
+  }
+
+  private correctDeltaX(delta: number): number {
+    const aspectRatio = this.getAspectRatio();
+    if (aspectRatio < 1) delta *= aspectRatio;
+    return delta;
+  }
+
+  private correctDeltaY(delta: number): number {
+    const aspectRatio = this.getAspectRatio();
+    if (aspectRatio > 1) delta /= aspectRatio;
+    return delta;
+  }
+
+  private correctRadius(radius: number): number {
+    const aspectRatio = this.getAspectRatio();
+    if (aspectRatio > 1 && this.config.aspectScaledRadius) radius *= aspectRatio;
+    return radius;
+  }
+
+  /**
+   * Splats in texture space (origin bottom-left) with dx/dy already in
+   * velocity units. Prefer splat() for scripted input.
+   */
+  public addSplat(x: number, y: number, dx: number, dy: number, color: FluidColor, radiusScale = 1): void {
+    const backend = this.backend;
+    const programs = this.programs;
+    const aspectRatio = this.getAspectRatio();
+    const radius = this.correctRadius((this.config.splatRadius * radiusScale) / 100.0);
+
+    const obstacles = this.getObstacleUniforms();
+
+    backend.draw(programs.splat, {
+      uTarget: this.velocity.read,
+      aspectRatio,
+      point: [x, y],
+      color: [dx, dy, 0.0],
+      radius,
+      ...obstacles,
+    }, this.velocity.write);
+    this.velocity.swap();
+
+    backend.draw(programs.splat, {
+      uTarget: this.dyeTarget.read,
+      aspectRatio,
+      point: [x, y],
+      color: [color.r, color.g, color.b],
+      radius: radius * this.config.dyeSplatRadius,
+      ...obstacles,
+    }, this.dyeTarget.write);
+    this.dyeTarget.swap();
+  }
+
+  /**
+   * Injects a splat at a normalized position (0-1, origin top-left). dx/dy are
+   * movement deltas in the same units as a pointer drag and get scaled by
+   * splatForce. Without a colour it continues the latest stroke's dye.
+   */
+  public splat(x: number, y: number, dx: number, dy: number, color?: FluidColor, radiusScale = 1): void {
+    if (!this.acceptsInput()) return;
+    this.record({ type: "splat", x, y, dx, dy, color, radiusScale });
+    this.emitSplat(x, y, dx, dy, color, radiusScale);
+  }
+
+  private emitSplat(x: number, y: number, dx: number, dy: number, color?: FluidColor, radiusScale = 1): void {
+    this.addSplat(
+      x,
+      1.0 - y,
+      this.correctDeltaX(dx) * this.config.splatForce,
+      this.correctDeltaY(-dy) * this.config.splatForce,
+      color ?? this.getDyeColor(this.getStrokeColor(), dx, dy),
+      radiusScale
+    );
+  }
+
+  /** Adds or replaces a named emitter */
+  public addEmitter(name: string, options: FluidEmitterOptions): void {
+    if (!this.acceptsInput()) return;
+    this.record({ type: "addEmitter", name, options });
+    this.emitters.set(name, { options, elapsed: 0, pending: 0, color: this.nextStrokeColor() });
+  }
+
+  public removeEmitter(name: string): void {
+    if (!this.acceptsInput()) return;
+    this.record({ type: "removeEmitter", name });
+    this.emitters.delete(name);
+  }
+
+  public clearEmitters(): void {
+    if (!this.acceptsInput()) return;
+    this.record({ type: "clearEmitters" });
+    this.emitters.clear();
+  }
+
+  private applyInputs(): void {
+    this.pointers.forEach((pointer) => {
+      if (pointer.moved) {
+        pointer.moved = false;
+        const dx = pointer.deltaX * this.config.splatForce;
+        const dy = pointer.deltaY * this.config.splatForce;
+        const color = this.getDyeColor(pointer.color, pointer.deltaX, pointer.deltaY);
+        this.addSplat(pointer.texcoordX, pointer.texcoordY, dx, dy, color, pointer.radiusScale);
+      }
+      if (pointer.released) {
+        this.pointers.delete(pointer.id);
+      }
+    });
+  }
+
+  private applyEmitters(dt: number): void {
+    this.emitters.forEach((emitter, name) => {
+      const { options } = emitter;
+      const previous = this.getEmitterPosition(options, emitter.elapsed);
+      emitter.elapsed += dt;
+
+      const pathDuration = options.pathDuration ?? 2;
+      const pathDone = !!options.path && !options.loop && emitter.elapsed >= pathDuration;
+      const expired = options.duration !== undefined && emitter.elapsed >= options.duration;
+
+      const current = this.getEmitterPosition(options, emitter.elapsed);
+      let angle = options.direction;
+      if (angle === undefined) {
+        const travelX = current.x - previous.x;
+        const travelY = current.y - previous.y;
+        angle = travelX === 0 && travelY === 0 ? -Math.PI / 2 : Math.atan2(travelY, travelX);
+      }
+
+      const force = options.force ?? 0.01;
+      emitter.pending += (options.rate ?? 30) * dt;
+      const dx = Math.cos(angle) * force;
+      const dy = Math.sin(angle) * force;
+      const color = options.color ?? this.getDyeColor(emitter.color, dx, dy);
+      while (emitter.pending >= 1) {
+        emitter.pending -= 1;
+        this.emitSplat(current.x, current.y, dx, dy, color);
+      }
+
+      if (pathDone || expired) {
+        this.emitters.delete(name);
+      }
+    });
+  }
+
+  private getEmitterPosition(options: FluidEmitterOptions, elapsed: number): FluidPoint {
+    const path = options.path;
+    if (!path || path.length === 0) {
+      return options.position ?? { x: 0.5, y: 0.5 };
+    }
+    if (path.length === 1) return path[0];
+
+    // Progress along the path, spread evenly over its segments
+    const pathDuration = options.pathDuration ?? 2;
+    let progress = elapsed / pathDuration;
+    progress = options.loop ? progress % 1 : Math.min(progress, 1);
+    const scaled = progress * (path.length - 1);
+    const index = Math.min(Math.floor(scaled), path.length - 2);
+    const t = scaled - index;
+    const from = path[index];
+    const to = path[index + 1];
+    return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+  }
+
+  // ===========================================================================
+  // Simulation
+  // ===========================================================================
+
+  /**
+   * Advances by `elapsed` seconds of frame time. With fixedTimestep this runs
+   * whole `timestep` steps and carries the remainder to the next frame; a frame
+   * that would need more than maxSubsteps drops the backlog instead of
+   * spiralling. Returns the number of steps run.
+   */
+  public advance(elapsed: number): number {
+    const { fixedTimestep, timestep, maxSubsteps } = this.config;
+
+    if (!fixedTimestep) {
+      this.step(Math.min(elapsed, timestep));
+      return 1;
+    }
+
+    this.accumulator += Math.max(elapsed, 0);
+    let substeps = 0;
+    while (substeps < maxSubsteps) {
+      // A replayed config change can set the timestep of the step it precedes
+      this.applyReplayEvents();
+      if (this.accumulator < this.config.timestep) break;
+      this.step(this.config.timestep);
+      this.accumulator -= this.config.timestep;
+      substeps++;
+    }
+    if (this.accumulator >= this.config.timestep) {
+      this.accumulator %= this.config.timestep;
+    }
+    return substeps;
+  }
+
+  /** Applies pending input and advances the simulation by dt seconds */
+  public step(dt: number): void {
+    this.applyReplayEvents();
+    this.stepCount++;
+    this.simulationTime += dt;
+    this.applyInputs();
+    this.applyEmitters(dt);
+
+    const backend = this.backend;
+    const programs = this.programs;
+    const velocity = this.velocity;
+    const texelSize: [number, number] = [velocity.texelSizeX, velocity.texelSizeY];
+    const obstacles = this.getObstacleUniforms();
+
+    // Curl
+    backend.draw(programs.curl, { texelSize, uVelocity: velocity.read }, this.curl);
+
+    // Vorticity
+    backend.draw(programs.vorticity, {
+      texelSize,
+      uVelocity: velocity.read,
+      uCurl: this.curl,
+      curl: this.config.curl,
+      dt,
+    }, velocity.write);
+    velocity.swap();
+
+    // Divergence
+    backend.draw(programs.divergence, { texelSize, uVelocity: velocity.read, ...obstacles }, this.divergence);
+
+    // Clear pressure
+    backend.draw(programs.clear, { uTexture: this.pressure.read, value: this.config.pressure }, this.pressure.write);
+    this.pressure.swap();
+
+    // Pressure
+    if (this.config.pressureSolver === "multigrid") {
+      this.ensureMultigridLevels();
+      for (let i = 0; i < this.config.pressureCycles; i++) {
+        this.vCycle(0);
+      }
+    } else {
+      this.relax(0, this.config.pressureIterations);
+    }
+
+    // Gradient Subtract
+    backend.draw(programs.gradientSubtract, {
+      texelSize,
+      uPressure: this.pressure.read,
+      uVelocity: velocity.read,
+      ...obstacles,
+    }, velocity.write);
+    velocity.swap();
+
+    // Advect velocity, then dye through the updated velocity
+    this.advect("velocity", velocity, "rg", dt, this.config.velocityDissipation);
+    this.advect("dye", this.dyeTarget, "rgba", dt, this.config.densityDissipation);
+  }
+
+  // ===========================================================================
+  // Pressure
+  // ===========================================================================
+
+  private deleteMultigridLevels(): void {
+    this.multigridLevels.forEach((level) => {
+      this.deleteDoubleTarget(level.error);
+      this.backend.deleteTarget(level.rhs);
+    });
+    this.multigridLevels = [];
+  }
+
+  private ensureMultigridLevels(): void {
+    const pressure = this.pressure;
+    const first = this.multigridLevels[0];
+    if (first && first.rhs.width === Math.ceil(pressure.width / 2) && first.rhs.height === Math.ceil(pressure.height / 2)) {
+      return;
+    }
+
+    this.deleteMultigridLevels();
+    const linear = this.backend.supportLinearFiltering;
+    let width = pressure.width;
+    let height = pressure.height;
+    while (Math.min(width, height) > MULTIGRID_COARSEST) {
+      width = Math.ceil(width / 2);
+      height = Math.ceil(height / 2);
+      this.multigridLevels.push({
+        // Linear filtering lets prolongation interpolate the error
+        error: this.createDoubleTarget(width, height, "r", linear),
+        rhs: this.backend.createTarget(width, height, "r", false),
+      });
+    }
+  }
+
+  // Level 0 is pressure against divergence; level n the error of level n - 1
+  private getLevelFields(level: number): { field: FluidDoubleTarget<Target>; rhs: Target } {
+    if (level === 0) return { field: this.pressure, rhs: this.divergence };
+    const { error, rhs } = this.multigridLevels[level - 1];
+    return { field: error, rhs };
+  }
+
+  /** Jacobi passes on one level; only the finest one knows about obstacles */
+  private relax(level: number, iterations: number): void {
+    const { field, rhs } = this.getLevelFields(level);
+    const program = level === 0 ? this.programs.pressure : this.programs.pressureCoarse;
+    const obstacles = level === 0 ? this.getObstacleUniforms() : {};
+    for (let i = 0; i < iterations; i++) {
+      this.backend.draw(program, {
+        texelSize: [field.texelSizeX, field.texelSizeY],
+        uDivergence: rhs,
+        uPressure: field.read,
+        ...obstacles,
+      }, field.write);
+      field.swap();
+    }
+  }
+
+  private vCycle(level: number): void {
+    const coarse = this.multigridLevels[level];
+    if (!coarse) {
+      this.relax(level, MULTIGRID_COARSE_ITERATIONS);
+      return;
+    }
+
+    const backend = this.backend;
+    const programs = this.programs;
+    const { field, rhs } = this.getLevelFields(level);
+
+    this.relax(level, MULTIGRID_SMOOTHING);
+
+    // Restrict what is left to the coarse level and solve for its error there
+    backend.draw(programs.residualRestrict, {
+      fineTexelSize: [field.texelSizeX, field.texelSizeY],
+      uPressure: field.read,
+      uDivergence: rhs,
+    }, coarse.rhs);
+    backend.draw(programs.clear, { uTexture: coarse.error.read, value: 0 }, coarse.error.write);
+    coarse.error.swap();
+    this.vCycle(level + 1);
+
+    backend.draw(programs.prolong, { uPressure: field.read, uCorrection: coarse.error.read }, field.write);
+    field.swap();
+
+    this.relax(level, MULTIGRID_SMOOTHING);
+  }
+
+  /** Advects `field` through the current velocity with the configured scheme */
+  private advect(name: string, field: FluidDoubleTarget<Target>, format: FluidTargetFormat, dt: number, dissipation: number): void {
+    const backend = this.backend;
+    const programs = this.programs;
+    const velocity = this.velocity.read;
+    const source = field.read;
+    const texelSize: [number, number] = [this.velocity.texelSizeX, this.velocity.texelSizeY];
+    const dyeTexelSize: [number, number] = [field.texelSizeX, field.texelSizeY];
+    const uniforms: FluidUniforms<Target> = {
+      texelSize,
+      dyeTexelSize,
+      displacementTexelSize: field === this.dyeTarget && this.config.dyeAdvection === "dye" ? dyeTexelSize : texelSize,
+      uVelocity: velocity,
+      ...this.getObstacleUniforms(),
+    };
+    const scheme = this.config.advection;
+
+    if (scheme === "semi-lagrangian") {
+      backend.draw(programs.advection, { ...uniforms, uSource: source, dt, dissipation }, field.write);
+      field.swap();
+      return;
+    }
+
+    // Forward, then back again: the round trip's error estimates the forward error
+    const [forward, backward] = this.getScratch(name, field, format);
+    backend.draw(programs.advection, { ...uniforms, uSource: source, dt, dissipation: 0 }, forward);
+    backend.draw(programs.advection, { ...uniforms, uSource: forward, dt: -dt, dissipation: 0 }, backward);
+
+    if (scheme === "maccormack") {
+      backend.draw(programs.advectionCorrectionLimited, {
+        ...uniforms,
+        uBase: forward,
+        uSource: source,
+        uBackward: backward,
+        dt,
+        dissipation,
+      }, field.write);
+    } else {
+      // BFECC corrects the source first, then advects it once more
+      backend.draw(programs.advectionCorrection, {
+        ...uniforms,
+        uBase: source,
+        uSource: source,
+        uBackward: backward,
+        dt: 0,
+        dissipation: 0,
+      }, forward);
+      backend.draw(programs.advectionLimited, {
+        ...uniforms,
+        uSource: forward,
+        uLimit: source,
+        dt,
+        dissipation,
+      }, field.write);
+    }
+    field.swap();
+  }
+
+  // ===========================================================================
+  // Post effects
+  // ===========================================================================
+
+  /** Keywords the display shaders need for the enabled effects */
+  public getDisplayKeywords(): string[] {
+    const keywords: string[] = [];
+    if (this.config.bloom) keywords.push("BLOOM");
+    if (this.config.sunrays) keywords.push("SUNRAYS");
+    if (this.config.dithering) keywords.push("DITHERING");
+    return keywords;
+  }
+
+  /**
+   * Uniforms for the display shaders' effect inputs. Only valid after
+   * renderEffects() for the current frame.
+   */
+  public getDisplayUniforms(): FluidUniforms<Target> {
+    const uniforms: FluidUniforms<Target> = {};
+    if (this.config.bloom && this.bloomLevels.length > 0) {
+      uniforms.uBloom = this.bloomUpLevels[0] ?? this.bloomLevels[0];
+      uniforms.uBloomIntensity = this.config.bloomIntensity;
+    }
+    if (this.config.sunrays && this.sunraysTargets.length > 0) {
+      uniforms.uSunrays = this.sunraysTargets[2];
+    }
+    return uniforms;
+  }
+
+  /** Renders bloom and sunrays from the current dye; call once per drawn frame */
+  public renderEffects(): void {
+    if (this.config.bloom) this.renderBloom();
+    if (this.config.sunrays) this.renderSunrays();
+  }
+
+  private deleteBloomTargets(): void {
+    this.bloomLevels.forEach((level) => this.backend.deleteTarget(level));
+    this.bloomUpLevels.forEach((level) => this.backend.deleteTarget(level));
+    this.bloomLevels = [];
+    this.bloomUpLevels = [];
+  }
+
+  private ensureBloomTargets(): void {
+    const resolution = this.getResolution(this.config.bloomResolution);
+    const first = this.bloomLevels[0];
+    if (
+      first &&
+      first.width === resolution.width &&
+      first.height === resolution.height &&
+      this.bloomIterations === this.config.bloomIterations
+    ) {
+      return;
+    }
+
+    this.deleteBloomTargets();
+    this.bloomIterations = this.config.bloomIterations;
+    const linear = this.backend.supportLinearFiltering;
+    let { width, height } = resolution;
+    for (let i = 0; i < Math.max(1, this.bloomIterations); i++) {
+      if (i > 0 && (width < 2 || height < 2)) break;
+      this.bloomLevels.push(this.backend.createTarget(width, height, "rgba", linear));
+      width >>= 1;
+      height >>= 1;
+    }
+    this.bloomUpLevels = this.bloomLevels
+      .slice(0, -1)
+      .map((level) => this.backend.createTarget(level.width, level.height, "rgba", linear));
+  }
+
+  private renderBloom(): void {
+    this.ensureBloomTargets();
+    const backend = this.backend;
+    const programs = this.programs;
+    const { bloomThreshold, bloomSoftKnee } = this.config;
+    const down = this.bloomLevels;
+    const up = this.bloomUpLevels;
+
+    const knee = bloomThreshold * bloomSoftKnee + 0.0001;
+    backend.draw(programs.bloomPrefilter, {
+      uTexture: this.dyeTarget.read,
+      curve: [bloomThreshold - knee, knee * 2, 0.25 / knee],
+      threshold: bloomThreshold,
+    }, down[0]);
+
+    for (let i = 1; i < down.length; i++) {
+      const source = down[i - 1];
+      backend.draw(programs.bloomBlur, {
+        uTexture: source,
+        texelSize: [source.texelSizeX, source.texelSizeY],
+      }, down[i]);
+    }
+
+    // Each level on the way up adds its own detail to the blurred level below
+    for (let i = up.length - 1; i >= 0; i--) {
+      const coarse = i === up.length - 1 ? down[i + 1] : up[i + 1];
+      backend.draw(programs.bloomAccumulate, {
+        uTexture: coarse,
+        uBase: down[i],
+        texelSize: [coarse.texelSizeX, coarse.texelSizeY],
+      }, up[i]);
+    }
+  }
+
+  private deleteSunraysTargets(): void {
+    this.sunraysTargets.forEach((target) => this.backend.deleteTarget(target));
+    this.sunraysTargets = [];
+  }
+
+  private ensureSunraysTargets(): void {
+    const { width, height } = this.getResolution(this.config.sunraysResolution);
+    const first = this.sunraysTargets[0];
+    if (first && first.width === width && first.height === height) return;
+
+    this.deleteSunraysTargets();
+    const linear = this.backend.supportLinearFiltering;
+    this.sunraysTargets = [
+      this.backend.createTarget(width, height, "rgba", linear),
+      this.backend.createTarget(width, height, "r", linear),
+      this.backend.createTarget(width, height, "r", linear),
+    ];
+  }
+
+  private renderSunrays(): void {
+    this.ensureSunraysTargets();
+    const backend = this.backend;
+    const [mask, rays, blurred] = this.sunraysTargets;
+
+    backend.draw(this.programs.sunraysMask, { uTexture: this.dyeTarget.read }, mask);
+    backend.draw(this.programs.sunrays, { uTexture: mask, weight: this.config.sunraysWeight }, rays);
+    backend.draw(this.programs.bloomBlur, {
+      uTexture: rays,
+      texelSize: [rays.texelSizeX, rays.texelSizeY],
+    }, blurred);
+  }
+
+  // ===========================================================================
+  // Recording & replay
+  // ===========================================================================
+
+  private acceptsInput(): boolean {
+    return !this.replayState || this.applyingReplay;
+  }
+
+  private record(input: FluidRecordedInput): void {
+    this.recording?.events.push({ step: this.stepCount, time: this.simulationTime, ...input });
+  }
+
+  // Only the entries that differ, since renderers pass the whole config every frame
+  private recordConfig(config: Partial<FluidConfig>): void {
+    const changes: Partial<FluidConfig> = {};
+    let changed = false;
+    (Object.keys(config) as (keyof FluidConfig)[]).forEach((key) => {
+      if (!sameConfigValue(config[key], this.config[key])) {
+        (changes as Record<string, unknown>)[key] = config[key];
+        changed = true;
+      }
+    });
+    if (changed) this.record({ type: "config", config: changes });
+  }
+
+  /**
+   * Clears the fields, pointers and emitters and restarts the step count, so
+   * what follows depends only on the config and later input
+   */
+  public reset(): void {
+    const backend = this.backend;
+    const programs = this.programs;
+    [this.dyeTarget, this.velocity, this.pressure].forEach((field) => {
+      backend.draw(programs.clear, { uTexture: field.read, value: 0 }, field.write);
+      field.swap();
+    });
+    this.pointers.clear();
+    this.emitters.clear();
+    this.paletteIndex = -1;
+    this.stepCount = 0;
+    this.simulationTime = 0;
+    this.accumulator = 0;
+  }
+
+  /**
+   * Starts recording every input and config change. Switches to a fixed
+   * timestep and resets the simulation, so a replay starts from the same
+   * state. Obstacle images are not recorded.
+   */
+  public startRecording(): void {
+    this.stopReplay();
+    this.updateConfig({ fixedTimestep: true });
+    this.reset();
+    const { width, height } = this.backend.getSize();
+    this.recording = { version: 1, config: { ...this.config }, width, height, steps: 0, events: [] };
+  }
+
+  /** Ends the recording and returns it, ready for JSON.stringify */
+  public stopRecording(): FluidRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    if (recording) recording.steps = this.stepCount;
+    return recording;
+  }
+
+  public isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Replays a recording from a reset simulation with its config. Each step
+   * gets the events recorded before it, so the frames match the recorded ones
+   * at the recorded drawing buffer size, at any frame rate. Live input is
+   * ignored until the replay ends or stopReplay() is called.
+   */
+  public replay(recording: FluidRecording, options: FluidReplayOptions = {}): void {
+    this.stopRecording();
+    this.replayState = { recording, index: 0, options };
+    this.restartReplay();
+  }
+
+  private restartReplay(): void {
+    const replay = this.replayState;
+    if (!replay) return;
+    replay.index = 0;
+    this.applyingReplay = true;
+    this.updateConfig(replay.recording.config);
+    this.applyingReplay = false;
+    this.reset();
+  }
+
+  public stopReplay(): void {
+    this.replayState = null;
+  }
+
+  public isReplaying(): boolean {
+    return this.replayState !== null;
+  }
+
+  // Feeds the events recorded before the step about to run
+  private applyReplayEvents(): void {
+    const replay = this.replayState;
+    if (!replay) return;
+
+    if (this.stepCount >= replay.recording.steps) {
+      if (replay.options.loop && replay.recording.steps > 0) {
+        this.restartReplay();
+      } else {
+        this.replayState = null;
+        replay.options.onEnd?.();
+        return;
+      }
+    }
+
+    const events = replay.recording.events;
+    this.applyingReplay = true;
+    while (replay.index < events.length && events[replay.index].step <= this.stepCount) {
+      this.applyRecordedInput(events[replay.index]);
+      replay.index++;
+    }
+    this.applyingReplay = false;
+  }
+
+  private applyRecordedInput(input: FluidRecordedInput): void {
+    switch (input.type) {
+      case "pointerDown":
+        this.updatePointerDown(input.id, input.x, input.y, input.pressure);
+        break;
+      case "pointerMove":
+        this.updatePointerMove(input.id, input.x, input.y, input.pressure);
+        break;
+      case "pointerUp":
+        this.updatePointerUp(input.id);
+        break;
+      case "splat":
+        this.splat(input.x, input.y, input.dx, input.dy, input.color, input.radiusScale);
+        break;
+      case "addEmitter":
+        this.addEmitter(input.name, input.options);
+        break;
+      case "removeEmitter":
+        this.removeEmitter(input.name);
+        break;
+      case "clearEmitters":
+        this.clearEmitters();
+        break;
+      case "config":
+        this.updateConfig(input.config);
+        break;
+    }
+  }
+
+  // ===========================================================================
+  // Snapshots
+  // ===========================================================================
+
+  private readField(field: FluidDoubleTarget<Target>, program: Program, scale: number, width: number, height: number): FluidFieldData {
+    const packed = this.backend.createTarget(width, height, "rgba8", false);
+    this.backend.draw(program, { uTexture: field.read, scale }, packed);
+    const data = this.backend.readTarget(packed);
+    this.backend.deleteTarget(packed);
+    return { width, height, data };
+  }
+
+  /**
+   * Packs the dye and velocity fields into bytes. The dye is downsampled to
+   * dyeResolution when it is larger; velocity is kept at sim resolution.
+   * Pressure is left out, as it converges again within a few steps. Waits for
+   * the GPU like measureCoverage().
+   */
+  public readFields(dyeResolution = this.config.dyeResolution): FluidFields {
+    const velocity = this.velocity;
+    const dye = this.dyeTarget;
+    const dyeSize = dyeResolution < this.config.dyeResolution ? this.getResolution(dyeResolution) : dye;
+    return {
+      dye: this.readField(dye, this.programs.encodeDye, SNAPSHOT_DYE_SCALE, dyeSize.width, dyeSize.height),
+      velocity: this.readField(velocity, this.programs.encodeVelocity, SNAPSHOT_VELOCITY_SCALE, velocity.width, velocity.height),
+      dyeScale: SNAPSHOT_DYE_SCALE,
+      velocityScale: SNAPSHOT_VELOCITY_SCALE,
+    };
+  }
+
+  // Velocity bytes only survive nearest sampling, so a field saved at another
+  // size comes back blocky rather than wrong
+  private writeField(field: FluidDoubleTarget<Target>, program: Program, source: FluidFieldData, scale: number, linear: boolean): void {
+    const packed = this.backend.uploadData(source.data, source.width, source.height, linear);
+    this.backend.draw(program, { uTexture: packed, scale }, field.write);
+    field.swap();
+    this.backend.deleteTarget(packed);
+  }
+
+  /**
+   * Replaces the dye and velocity fields with ones from readFields(), scaled
+   * to the current resolution. Pressure is cleared.
+   */
+  public writeFields(fields: FluidFields): void {
+    this.writeField(this.dyeTarget, this.programs.decodeDye, fields.dye, fields.dyeScale, true);
+    this.writeField(this.velocity, this.programs.decodeVelocity, fields.velocity, fields.velocityScale, false);
+    this.backend.draw(this.programs.clear, { uTexture: this.pressure.read, value: 0 }, this.pressure.write);
+    this.pressure.swap();
+  }
+
+  // ===========================================================================
+  // Coverage
+  // ===========================================================================
+
+  private deleteCoverageLevels(): void {
+    this.coverageLevels.forEach((level) => this.backend.deleteTarget(level));
+    this.coverageLevels = [];
+  }
+
+  // Halves the dye size until it fits COVERAGE_SIZE; only the last level is read back
+  private ensureCoverageLevels(): void {
+    const dye = this.dyeTarget;
+    if (
+      this.coverageLevels.length > 0 &&
+      this.coverageSourceWidth === dye.width &&
+      this.coverageSourceHeight === dye.height
+    ) {
+      return;
+    }
+
+    this.deleteCoverageLevels();
+    this.coverageSourceWidth = dye.width;
+    this.coverageSourceHeight = dye.height;
+
+    const sizes: { width: number; height: number }[] = [];
+    let width = dye.width;
+    let height = dye.height;
+    do {
+      width = Math.ceil(width / 2);
+      height = Math.ceil(height / 2);
+      sizes.push({ width, height });
+    } while (width > COVERAGE_SIZE || height > COVERAGE_SIZE);
+
+    this.coverageLevels = sizes.map((size, i) =>
+      this.backend.createTarget(size.width, size.height, i === sizes.length - 1 ? "rgba8" : "r", false)
+    );
+  }
+
+  /**
+   * Fraction (0-1) of the canvas the dye has revealed, through the same curve
+   * displayCompositeShader cuts holes with. The dye is reduced on the GPU and
+   * only a tiny texture is read back, but the readback still waits for the GPU,
+   * so measure every few frames rather than every frame.
+   */
+  public measureCoverage(): number {
+    this.ensureCoverageLevels();
+
+    let source: Target = this.dyeTarget.read;
+    this.coverageLevels.forEach((level, i) => {
+      this.backend.draw(i === 0 ? this.programs.coverageFirst : this.programs.coverage, {
+        uTexture: source,
+        sourceTexelSize: [source.texelSizeX, source.texelSizeY],
+      }, level);
+      source = level;
+    });
+
+    const pixels = this.backend.readTarget(source);
+    let sum = 0;
+    for (let i = 0; i < pixels.length; i += 4) {
+      sum += pixels[i];
+    }
+    return sum / 255 / (pixels.length / 4);
+  }
+
+  /** Deletes every target and program the solver created */
+  public dispose(): void {
+    this.pointers.clear();
+    this.emitters.clear();
+
+    const backend = this.backend;
+    this.deletePrograms();
+
+    if (this.hasTargets) {
+      this.deleteDoubleTarget(this.dyeTarget);
+      this.deleteDoubleTarget(this.velocity);
+      backend.deleteTarget(this.divergence);
+      backend.deleteTarget(this.curl);
+      this.deleteDoubleTarget(this.pressure);
+      this.hasTargets = false;
+    }
+    this.deleteCoverageLevels();
+    this.deleteMultigridLevels();
+    this.deleteScratchTargets();
+    this.deleteBloomTargets();
+    this.deleteSunraysTargets();
+    this.deleteObstacleMask();
+    if (this.obstacleImage) backend.deleteTarget(this.obstacleImage);
+    this.obstacleImage = null;
+    this.obstacleImageSource = null;
+  }
+}
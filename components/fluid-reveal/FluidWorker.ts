@@ -0,0 +1,177 @@
+import type {
+  FluidSimulation,
+  FluidSimulationOptions,
+  FluidConfig,
+  FluidColor,
+  FluidEmitterOptions,
+} from "./FluidSimulation";
+
+/**
+ * The part of FluidSimulation that works the same on the main thread and in
+ * a worker. Everything here is a fire-and-forget call with cloneable args.
+ * Snapshots and input recording return results, so they are main-thread only.
+ */
+export type FluidController = Pick<
+  FluidSimulation,
+  | "updatePointerDownData"
+  | "updatePointerMoveData"
+  | "updatePointerUpData"
+  | "splat"
+  | "addEmitter"
+  | "removeEmitter"
+  | "clearEmitters"
+  | "updateConfig"
+  | "resume"
+  | "stop"
+  | "dispose"
+>;
+
+type FluidWorkerMethod = Exclude<keyof FluidController, "dispose">;
+
+// Time the worker gets to free its GL objects and close itself before it is
+// terminated, which also covers a worker that failed to load or is stuck
+const DISPOSE_TIMEOUT = 1000;
+
+/** Messages from the page to fluid.worker.ts */
+export type FluidWorkerRequest =
+  | { type: "init"; canvas: OffscreenCanvas; config: Partial<FluidConfig>; visible: boolean }
+  | { type: "resize"; width: number; height: number }
+  | { type: "call"; method: FluidWorkerMethod; args: unknown[] }
+  | { type: "dispose" };
+
+/** Messages from fluid.worker.ts back to the page */
+export type FluidWorkerEvent =
+  | { type: "ready" }
+  | { type: "error"; message: string }
+  | { type: "contextLost" }
+  | { type: "contextRestored" };
+
+export interface FluidWorkerClientOptions extends FluidSimulationOptions {
+  /** The simulation is running in the worker */
+  onReady?: () => void;
+  /** The worker could not create a WebGL context or failed to load */
+  onError?: (message: string) => void;
+}
+
+/** True when a canvas can be handed to a worker and rendered there */
+export function supportsOffscreenFluid(): boolean {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof HTMLCanvasElement !== "undefined" &&
+    "transferControlToOffscreen" in HTMLCanvasElement.prototype
+  );
+}
+
+/**
+ * Runs a FluidSimulation in a dedicated worker on a transferred canvas, so
+ * solver passes and draw calls stay off the main thread. The canvas belongs
+ * to the worker from then on: its size can only change through resize(), and
+ * it cannot get a context on the page again, even after an error.
+ */
+export class FluidWorkerClient implements FluidController {
+  private worker: Worker;
+  private disposed = false;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    config: Partial<FluidConfig>,
+    visible: boolean,
+    options: FluidWorkerClientOptions = {}
+  ) {
+    const offscreen = canvas.transferControlToOffscreen();
+    this.worker = new Worker(new URL("./fluid.worker.ts", import.meta.url));
+
+    this.worker.onmessage = (event: MessageEvent<FluidWorkerEvent>) => {
+      if (this.disposed) return;
+      const message = event.data;
+      switch (message.type) {
+        case "ready":
+          options.onReady?.();
+          break;
+        case "error":
+          options.onError?.(message.message);
+          break;
+        case "contextLost":
+          options.onContextLost?.();
+          break;
+        case "contextRestored":
+          options.onContextRestored?.();
+          break;
+      }
+    };
+    this.worker.onerror = (event) => {
+      if (!this.disposed) options.onError?.(event.message || "Fluid worker failed to load");
+    };
+
+    this.post({ type: "init", canvas: offscreen, config, visible }, [offscreen]);
+  }
+
+  private post(message: FluidWorkerRequest, transfer: Transferable[] = []): void {
+    if (this.disposed) return;
+    this.worker.postMessage(message, transfer);
+  }
+
+  private call<M extends FluidWorkerMethod>(method: M, ...args: Parameters<FluidSimulation[M]>): void {
+    this.post({ type: "call", method, args });
+  }
+
+  /** Sets the drawing buffer size in pixels */
+  public resize(width: number, height: number): void {
+    this.post({ type: "resize", width, height });
+  }
+
+  public updatePointerDownData(id: number, posX: number, posY: number): void {
+    this.call("updatePointerDownData", id, posX, posY);
+  }
+
+  public updatePointerMoveData(id: number, posX: number, posY: number): void {
+    this.call("updatePointerMoveData", id, posX, posY);
+  }
+
+  public updatePointerUpData(id: number): void {
+    this.call("updatePointerUpData", id);
+  }
+
+  public splat(x: number, y: number, dx: number, dy: number, color?: FluidColor): void {
+    this.call("splat", x, y, dx, dy, color);
+  }
+
+  public addEmitter(name: string, options: FluidEmitterOptions): void {
+    this.call("addEmitter", name, options);
+  }
+
+  public removeEmitter(name: string): void {
+    this.call("removeEmitter", name);
+  }
+
+  public clearEmitters(): void {
+    this.call("clearEmitters");
+  }
+
+  public updateConfig(config: Partial<FluidConfig>): void {
+    this.call("updateConfig", config);
+  }
+
+  public resume(): void {
+    this.call("resume");
+  }
+
+  public stop(): void {
+    this.call("stop");
+  }
+
+  /**
+   * Disposes the simulation in the worker, which then closes itself. The
+   * worker is terminated after DISPOSE_TIMEOUT either way.
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.post({ type: "dispose" });
+    this.disposed = true;
+    this.worker.onmessage = null;
+    this.worker.onerror = null;
+    const worker = this.worker;
+    setTimeout(() => worker.terminate(), DISPOSE_TIMEOUT);
+  }
+}
@@ -0,0 +1,207 @@
+import * as THREE from "three";
+import { baseVertexShader, copyShader } from "./shaders";
+import type { FluidBackend, FluidTarget, FluidTargetFormat, FluidUniforms } from "./FluidSolver";
+
+export interface ThreeTarget extends FluidTarget {
+  renderTarget: THREE.WebGLRenderTarget;
+}
+
+const uniformDefaults: Record<string, () => unknown> = {
+  float: () => 0,
+  bool: () => false,
+  vec2: () => [0, 0],
+  vec3: () => [0, 0, 0],
+};
+
+// Declared uniforms of a GLSL source, so three.js uploads every one of them.
+// three.js throws on null vectors, so each starts with a zero of its type.
+function parseUniforms(source: string): Record<string, THREE.IUniform> {
+  const uniforms: Record<string, THREE.IUniform> = {};
+  const pattern = /uniform\s+(\w+)\s+(\w+)\s*;/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    const createDefault = uniformDefaults[match[1]];
+    uniforms[match[2]] = { value: createDefault ? createDefault() : null };
+  }
+  return uniforms;
+}
+
+/**
+ * Full-screen quad for the shared shaders, which read `aPosition` in clip
+ * space. `position` is only there for three.js bookkeeping.
+ */
+export function createQuadGeometry(): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  const positions = new Float32Array([-1, -1, -1, 1, 1, 1, 1, -1]);
+  geometry.setAttribute("aPosition", new THREE.BufferAttribute(positions, 2));
+  geometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array([
+    -1, -1, 0,
+    -1, 1, 0,
+     1, 1, 0,
+     1, -1, 0,
+  ]), 3));
+  geometry.setIndex([0, 1, 2, 0, 2, 3]);
+  return geometry;
+}
+
+/** Builds a material for a shader from shaders.ts, using the shared vertex shader */
+export function createShaderMaterial(fragmentShader: string, keywords: string[] = []): THREE.RawShaderMaterial {
+  const defines = keywords.map((keyword) => `#define ${keyword}\n`).join("");
+  return new THREE.RawShaderMaterial({
+    vertexShader: baseVertexShader,
+    fragmentShader: defines + fragmentShader,
+    uniforms: {
+      ...parseUniforms(baseVertexShader),
+      ...parseUniforms(fragmentShader),
+    },
+    depthTest: false,
+    depthWrite: false,
+  });
+}
+
+/** Recompiles a material from createShaderMaterial with different keywords */
+export function setShaderKeywords(material: THREE.RawShaderMaterial, fragmentShader: string, keywords: string[]): void {
+  const defines = keywords.map((keyword) => `#define ${keyword}\n`).join("");
+  material.fragmentShader = defines + fragmentShader;
+  material.needsUpdate = true;
+}
+
+/**
+ * Solver backend on a three.js renderer, used inside react-three-fiber.
+ * Passes render an offscreen quad so they never touch the R3F scene.
+ */
+export class ThreeBackend implements FluidBackend<ThreeTarget, THREE.RawShaderMaterial> {
+  public readonly supportLinearFiltering: boolean;
+  private renderer: THREE.WebGLRenderer;
+  private scene = new THREE.Scene();
+  private camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+  private geometry = createQuadGeometry();
+  private mesh: THREE.Mesh;
+  private size = new THREE.Vector2();
+  private copyMaterial: THREE.RawShaderMaterial | null = null;
+
+  constructor(renderer: THREE.WebGLRenderer) {
+    this.renderer = renderer;
+    this.supportLinearFiltering =
+      renderer.capabilities.isWebGL2 || renderer.extensions.has("OES_texture_half_float_linear");
+    this.mesh = new THREE.Mesh(this.geometry);
+    this.mesh.frustumCulled = false;
+    this.scene.add(this.mesh);
+  }
+
+  public getSize(): { width: number; height: number } {
+    this.renderer.getDrawingBufferSize(this.size);
+    return { width: this.size.x, height: this.size.y };
+  }
+
+  public createProgram(fragmentShader: string, keywords: string[] = []): THREE.RawShaderMaterial {
+    return createShaderMaterial(fragmentShader, keywords);
+  }
+
+  public deleteProgram(program: THREE.RawShaderMaterial): void {
+    program.dispose();
+  }
+
+  public createTarget(w: number, h: number, format: FluidTargetFormat, linear: boolean): ThreeTarget {
+    // Single and dual channel float targets need WebGL2
+    const isWebGL2 = this.renderer.capabilities.isWebGL2;
+    const textureFormat =
+      !isWebGL2 || format === "rgba" || format === "rgba8" ? THREE.RGBAFormat
+      : format === "rg" ? THREE.RGFormat
+      : THREE.RedFormat;
+    const filter = linear ? THREE.LinearFilter : THREE.NearestFilter;
+
+    const renderTarget = new THREE.WebGLRenderTarget(w, h, {
+      format: textureFormat,
+      type: format === "rgba8" ? THREE.UnsignedByteType : THREE.HalfFloatType,
+      minFilter: filter,
+      magFilter: filter,
+      wrapS: THREE.ClampToEdgeWrapping,
+      wrapT: THREE.ClampToEdgeWrapping,
+      depthBuffer: false,
+      stencilBuffer: false,
+    });
+
+    return {
+      renderTarget,
+      width: w,
+      height: h,
+      texelSizeX: 1.0 / w,
+      texelSizeY: 1.0 / h,
+    };
+  }
+
+  public deleteTarget(target: ThreeTarget): void {
+    target.renderTarget.dispose();
+  }
+
+  public readTarget(target: ThreeTarget): Uint8Array {
+    const pixels = new Uint8Array(target.width * target.height * 4);
+    this.renderer.readRenderTargetPixels(target.renderTarget, 0, 0, target.width, target.height, pixels);
+    return pixels;
+  }
+
+  public uploadImage(source: TexImageSource, target: ThreeTarget | null = null): ThreeTarget {
+    const width = "width" in source ? Number(source.width) : 1;
+    const height = "height" in source ? Number(source.height) : 1;
+    if (target && (target.width !== width || target.height !== height)) {
+      this.deleteTarget(target);
+      target = null;
+    }
+    const result = target ?? this.createTarget(width, height, "rgba8", true);
+
+    const texture = new THREE.Texture(source as HTMLImageElement);
+    texture.premultiplyAlpha = true;
+    texture.needsUpdate = true;
+    this.copyTexture(texture, result);
+    return result;
+  }
+
+  /** Creates an "rgba8" target holding raw RGBA bytes, rows bottom-up like readTarget() */
+  public uploadData(data: Uint8Array, width: number, height: number, linear: boolean): ThreeTarget {
+    const result = this.createTarget(width, height, "rgba8", linear);
+    const texture = new THREE.DataTexture(data, width, height, THREE.RGBAFormat, THREE.UnsignedByteType);
+    texture.needsUpdate = true;
+    this.copyTexture(texture, result);
+    return result;
+  }
+
+  // Render targets cannot be filled from a texture directly, so draw one in.
+  // The texture is disposed afterwards.
+  private copyTexture(texture: THREE.Texture, target: ThreeTarget): void {
+    this.copyMaterial ??= createShaderMaterial(copyShader);
+    this.copyMaterial.uniforms.uTexture.value = texture;
+
+    const renderer = this.renderer;
+    const previousTarget = renderer.getRenderTarget();
+    this.mesh.material = this.copyMaterial;
+    renderer.setRenderTarget(target.renderTarget);
+    renderer.render(this.scene, this.camera);
+    renderer.setRenderTarget(previousTarget);
+
+    this.copyMaterial.uniforms.uTexture.value = null;
+    texture.dispose();
+  }
+
+  public draw(program: THREE.RawShaderMaterial, uniforms: FluidUniforms<ThreeTarget>, target: ThreeTarget | null): void {
+    for (const name in uniforms) {
+      const uniform = program.uniforms[name];
+      if (!uniform) continue;
+      const value = uniforms[name];
+      uniform.value = typeof value === "object" && !Array.isArray(value) ? value.renderTarget.texture : value;
+    }
+
+    const renderer = this.renderer;
+    const previousTarget = renderer.getRenderTarget();
+    this.mesh.material = program;
+    renderer.setRenderTarget(target ? target.renderTarget : null);
+    renderer.render(this.scene, this.camera);
+    renderer.setRenderTarget(previousTarget);
+  }
+
+  public dispose(): void {
+    this.scene.remove(this.mesh);
+    this.geometry.dispose();
+    this.copyMaterial?.dispose();
+  }
+}
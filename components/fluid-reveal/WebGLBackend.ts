@@ -0,0 +1,396 @@
+import { baseVertexShader } from "./shaders";
+import type { FluidBackend, FluidTarget, FluidTargetFormat, FluidUniforms } from "./FluidSolver";
+
+export type GLContext = WebGLRenderingContext | WebGL2RenderingContext;
+
+export interface WebGLTarget extends FluidTarget {
+  texture: WebGLTexture;
+  /** Null for image textures that are only ever sampled */
+  fbo: WebGLFramebuffer | null;
+}
+
+export interface WebGLProgramInfo {
+  program: WebGLProgram;
+  uniforms: { [key: string]: WebGLUniformLocation | null };
+}
+
+interface TextureFormat {
+  internalFormat: number;
+  format: number;
+}
+
+interface GLExtensions {
+  isWebGL2: boolean;
+  formatRGBA: TextureFormat;
+  formatRG: TextureFormat;
+  formatR: TextureFormat;
+  halfFloatTexType: number;
+  supportLinearFiltering: boolean;
+}
+
+// Renders into a tiny texture of the given format and checks the framebuffer is complete
+function supportRenderTextureFormat(gl: GLContext, internalFormat: number, format: number, type: number): boolean {
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, 4, 4, 0, format, type, null);
+
+  const fbo = gl.createFramebuffer();
+  gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+  const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  gl.deleteFramebuffer(fbo);
+  gl.deleteTexture(texture);
+
+  return status === gl.FRAMEBUFFER_COMPLETE;
+}
+
+// Walks R16F -> RG16F -> RGBA16F until a renderable format is found
+function getSupportedFormat(gl: WebGL2RenderingContext, internalFormat: number, format: number, type: number): TextureFormat | null {
+  if (supportRenderTextureFormat(gl, internalFormat, format, type)) {
+    return { internalFormat, format };
+  }
+  switch (internalFormat) {
+    case gl.R16F:
+      return getSupportedFormat(gl, gl.RG16F, gl.RG, type);
+    case gl.RG16F:
+      return getSupportedFormat(gl, gl.RGBA16F, gl.RGBA, type);
+    default:
+      return null;
+  }
+}
+
+function getWebGL2Extensions(gl: WebGL2RenderingContext): GLExtensions {
+  gl.getExtension("EXT_color_buffer_float");
+
+  const formatRGBA = getSupportedFormat(gl, gl.RGBA16F, gl.RGBA, gl.HALF_FLOAT);
+  const formatRG = getSupportedFormat(gl, gl.RG16F, gl.RG, gl.HALF_FLOAT);
+  const formatR = getSupportedFormat(gl, gl.R16F, gl.RED, gl.HALF_FLOAT);
+
+  if (formatRGBA && formatRG && formatR) {
+    return {
+      isWebGL2: true,
+      formatRGBA,
+      formatRG,
+      formatR,
+      halfFloatTexType: gl.HALF_FLOAT,
+      // Linear filtering of half floats is core in WebGL2;
+      // OES_texture_float_linear only covers 32-bit floats
+      supportLinearFiltering: true,
+    };
+  }
+
+  // No renderable half-float targets: 8-bit RGBA is always renderable in WebGL2
+  const rgba8 = { internalFormat: gl.RGBA8, format: gl.RGBA };
+  return {
+    isWebGL2: true,
+    formatRGBA: rgba8,
+    formatRG: rgba8,
+    formatR: rgba8,
+    halfFloatTexType: gl.UNSIGNED_BYTE,
+    supportLinearFiltering: true,
+  };
+}
+
+function getWebGL1Extensions(gl: WebGLRenderingContext): GLExtensions {
+  const halfFloat = gl.getExtension("OES_texture_half_float");
+  const halfFloatLinear = gl.getExtension("OES_texture_half_float_linear");
+  const rgba = { internalFormat: gl.RGBA, format: gl.RGBA };
+
+  // Some mobile GPUs expose half floats but cannot render into them
+  if (halfFloat && supportRenderTextureFormat(gl, gl.RGBA, gl.RGBA, halfFloat.HALF_FLOAT_OES)) {
+    return {
+      isWebGL2: false,
+      formatRGBA: rgba,
+      formatRG: rgba,
+      formatR: rgba,
+      halfFloatTexType: halfFloat.HALF_FLOAT_OES,
+      supportLinearFiltering: !!halfFloatLinear,
+    };
+  }
+
+  return {
+    isWebGL2: false,
+    formatRGBA: rgba,
+    formatRG: rgba,
+    formatR: rgba,
+    halfFloatTexType: gl.UNSIGNED_BYTE,
+    supportLinearFiltering: true,
+  };
+}
+
+/**
+ * Solver backend on a raw WebGL context. Draws to the canvas are blended
+ * premultiplied (ONE, ONE_MINUS_SRC_ALPHA); draws into targets are not.
+ */
+export class WebGLBackend implements FluidBackend<WebGLTarget, WebGLProgramInfo> {
+  public readonly gl: GLContext;
+  private ext: GLExtensions;
+  private vertexBuffer: WebGLBuffer | null = null;
+  private indexBuffer: WebGLBuffer | null = null;
+
+  constructor(gl: GLContext) {
+    this.gl = gl;
+    this.ext = this.queryExtensions();
+    this.initBlit();
+  }
+
+  public get supportLinearFiltering(): boolean {
+    return this.ext.supportLinearFiltering;
+  }
+
+  public get isWebGL2(): boolean {
+    return this.ext.isWebGL2;
+  }
+
+  private queryExtensions(): GLExtensions {
+    return typeof WebGL2RenderingContext !== "undefined" && this.gl instanceof WebGL2RenderingContext
+      ? getWebGL2Extensions(this.gl)
+      : getWebGL1Extensions(this.gl);
+  }
+
+  private initBlit(): void {
+    const gl = this.gl;
+
+    this.vertexBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, -1, 1, 1, 1, 1, -1]), gl.STATIC_DRAW);
+
+    this.indexBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, new Uint16Array([0, 1, 2, 0, 2, 3]), gl.STATIC_DRAW);
+
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    gl.enableVertexAttribArray(0);
+    gl.clearColor(0.0, 0.0, 0.0, 1.0);
+  }
+
+  /**
+   * Re-queries extensions and rebuilds the quad after a restored context.
+   * Objects from the lost context are already invalid and are not deleted.
+   */
+  public restore(): void {
+    this.ext = this.queryExtensions();
+    this.initBlit();
+  }
+
+  public getSize(): { width: number; height: number } {
+    return { width: this.gl.drawingBufferWidth, height: this.gl.drawingBufferHeight };
+  }
+
+  private compileShader(type: number, source: string, keywords: string[] = []): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type)!;
+    const defines = keywords.map((keyword) => `#define ${keyword}\n`).join("");
+    gl.shaderSource(shader, defines + source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.error(gl.getShaderInfoLog(shader));
+      throw new Error("Shader compilation failed");
+    }
+
+    return shader;
+  }
+
+  public createProgram(fragmentShader: string, keywords: string[] = []): WebGLProgramInfo {
+    const gl = this.gl;
+    const program = gl.createProgram()!;
+
+    const vertex = this.compileShader(gl.VERTEX_SHADER, baseVertexShader);
+    const fragment = this.compileShader(gl.FRAGMENT_SHADER, fragmentShader, keywords);
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+
+    // Bind attribute location BEFORE linking
+    gl.bindAttribLocation(program, 0, "aPosition");
+
+    gl.linkProgram(program);
+
+    // The linked program keeps its own copy, so the shader objects can go
+    gl.detachShader(program, vertex);
+    gl.detachShader(program, fragment);
+    gl.deleteShader(vertex);
+    gl.deleteShader(fragment);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      console.error(gl.getProgramInfoLog(program));
+      throw new Error("Program linking failed");
+    }
+
+    const uniforms: { [key: string]: WebGLUniformLocation | null } = {};
+    const uniformCount = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS);
+    for (let i = 0; i < uniformCount; i++) {
+      const uniformInfo = gl.getActiveUniform(program, i);
+      if (uniformInfo) {
+        uniforms[uniformInfo.name] = gl.getUniformLocation(program, uniformInfo.name);
+      }
+    }
+
+    return { program, uniforms };
+  }
+
+  public deleteProgram(program: WebGLProgramInfo): void {
+    this.gl.deleteProgram(program.program);
+  }
+
+  public createTarget(w: number, h: number, format: FluidTargetFormat, linear: boolean): WebGLTarget {
+    const gl = this.gl;
+    const textureFormat =
+      format === "rgba8" ? this.getByteFormat()
+      : format === "rgba" ? this.ext.formatRGBA
+      : format === "rg" ? this.ext.formatRG
+      : this.ext.formatR;
+    const type = format === "rgba8" ? gl.UNSIGNED_BYTE : this.ext.halfFloatTexType;
+    const param = linear ? gl.LINEAR : gl.NEAREST;
+
+    gl.activeTexture(gl.TEXTURE0);
+    const texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, param);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, param);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      textureFormat.internalFormat,
+      w,
+      h,
+      0,
+      textureFormat.format,
+      type,
+      null
+    );
+
+    const fbo = gl.createFramebuffer()!;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    gl.viewport(0, 0, w, h);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    return {
+      texture,
+      fbo,
+      width: w,
+      height: h,
+      texelSizeX: 1.0 / w,
+      texelSizeY: 1.0 / h,
+    };
+  }
+
+  private getByteFormat(): TextureFormat {
+    const gl = this.gl;
+    return this.ext.isWebGL2
+      ? { internalFormat: (gl as WebGL2RenderingContext).RGBA8, format: gl.RGBA }
+      : { internalFormat: gl.RGBA, format: gl.RGBA };
+  }
+
+  /**
+   * Uploads an image (premultiplied, flipped to texture space) into a
+   * sample-only target, reusing `target` when given.
+   */
+  public uploadImage(source: TexImageSource, target: WebGLTarget | null = null): WebGLTarget {
+    const gl = this.gl;
+    const texture = target?.texture ?? gl.createTexture()!;
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+
+    const width = "width" in source ? Number(source.width) : 1;
+    const height = "height" in source ? Number(source.height) : 1;
+    return {
+      texture,
+      fbo: null,
+      width,
+      height,
+      texelSizeX: 1.0 / width,
+      texelSizeY: 1.0 / height,
+    };
+  }
+
+  /** Creates an "rgba8" target holding raw RGBA bytes, rows bottom-up like readTarget() */
+  public uploadData(data: Uint8Array, width: number, height: number, linear: boolean): WebGLTarget {
+    const gl = this.gl;
+    const target = this.createTarget(width, height, "rgba8", linear);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, target.texture);
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, data);
+    return target;
+  }
+
+  public deleteTarget(target: WebGLTarget): void {
+    if (target.fbo) this.gl.deleteFramebuffer(target.fbo);
+    this.gl.deleteTexture(target.texture);
+  }
+
+  public readTarget(target: WebGLTarget): Uint8Array {
+    const gl = this.gl;
+    const pixels = new Uint8Array(target.width * target.height * 4);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.fbo);
+    gl.readPixels(0, 0, target.width, target.height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return pixels;
+  }
+
+  public draw(program: WebGLProgramInfo, uniforms: FluidUniforms<WebGLTarget>, target: WebGLTarget | null): void {
+    const gl = this.gl;
+    gl.useProgram(program.program);
+
+    // Textures get consecutive units in the order they are listed
+    let unit = 0;
+    for (const name in uniforms) {
+      const location = program.uniforms[name];
+      if (location === undefined || location === null) continue;
+      const value = uniforms[name];
+      if (typeof value === "number") {
+        gl.uniform1f(location, value);
+      } else if (Array.isArray(value)) {
+        if (value.length === 2) gl.uniform2f(location, value[0], value[1]);
+        else gl.uniform3f(location, value[0], value[1], value[2]);
+      } else {
+        gl.activeTexture(gl.TEXTURE0 + unit);
+        gl.bindTexture(gl.TEXTURE_2D, value.texture);
+        gl.uniform1i(location, unit);
+        unit++;
+      }
+    }
+
+    if (target == null) {
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+      gl.enable(gl.BLEND);
+      gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    } else {
+      gl.disable(gl.BLEND);
+      gl.viewport(0, 0, target.width, target.height);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, target.fbo);
+    }
+    gl.drawElements(gl.TRIANGLES, 6, gl.UNSIGNED_SHORT, 0);
+  }
+
+  /** Releases the quad buffers; targets and programs belong to their owners */
+  public dispose(): void {
+    const gl = this.gl;
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, null);
+    gl.deleteBuffer(this.vertexBuffer);
+    gl.deleteBuffer(this.indexBuffer);
+    this.vertexBuffer = null;
+    this.indexBuffer = null;
+  }
+}
@@ -0,0 +1,65 @@
+// Picks the best way to render a fluid reveal on this device. The WebGL tiers
+// run the solver (both backends fall back to 8-bit targets when half floats
+// are not renderable); "css" is a clip-path spotlight and "static" shows the
+// covering layer, or a poster, without interaction.
+
+export type FluidRenderer = "webgl2" | "webgl" | "css" | "static";
+
+// Creates a throwaway context and releases it straight away, so the probe
+// does not count against the browser's limit on live contexts
+function probeContext(type: "webgl2" | "webgl"): boolean {
+  try {
+    const canvas = document.createElement("canvas");
+    const gl = (canvas.getContext(type) ??
+      (type === "webgl" ? canvas.getContext("experimental-webgl") : null)) as WebGLRenderingContext | null;
+    if (!gl) return false;
+    gl.getExtension("WEBGL_lose_context")?.loseContext();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function supportsSpotlight(): boolean {
+  return typeof CSS !== "undefined" && CSS.supports("clip-path", "polygon(evenodd, 0 0, 1px 0, 0 1px)");
+}
+
+let cachedRenderer: FluidRenderer | null = null;
+
+/** Detects the renderer once per page; "static" when called during SSR */
+export function detectFluidRenderer(): FluidRenderer {
+  if (typeof window === "undefined") return "static";
+  if (cachedRenderer) return cachedRenderer;
+
+  if (probeContext("webgl2")) {
+    cachedRenderer = "webgl2";
+  } else if (probeContext("webgl")) {
+    cachedRenderer = "webgl";
+  } else {
+    cachedRenderer = detectFallbackRenderer();
+  }
+  return cachedRenderer;
+}
+
+/** Best tier without WebGL, for when creating a context fails after detection */
+export function detectFallbackRenderer(): "css" | "static" {
+  return supportsSpotlight() ? "css" : "static";
+}
+
+const SPOTLIGHT_SEGMENTS = 48;
+
+/**
+ * clip-path that shows an element everywhere except a circle, in pixels
+ * relative to the element. The even-odd rule turns the circle into a hole.
+ */
+export function createSpotlightHole(x: number, y: number, radius: number): string {
+  const points = ["0 0", "100% 0", "100% 100%", "0 100%", "0 0"];
+  for (let i = 0; i <= SPOTLIGHT_SEGMENTS; i++) {
+    const angle = (i / SPOTLIGHT_SEGMENTS) * Math.PI * 2;
+    const px = x + Math.cos(angle) * radius;
+    const py = y + Math.sin(angle) * radius;
+    points.push(`${px.toFixed(1)}px ${py.toFixed(1)}px`);
+  }
+  points.push("0 0");
+  return `polygon(evenodd, ${points.join(", ")})`;
+}
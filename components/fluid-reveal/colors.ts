@@ -0,0 +1,53 @@
+import { FluidColor, FluidConfig, defaultConfig } from "./FluidSolver";
+
+// Resolves CSS colours for the "theme" dye mode. Any syntax the browser
+// accepts works (hex, rgb(), hsl(), oklch()), since a 2D canvas converts it.
+
+let probe: CanvasRenderingContext2D | null = null;
+
+function getProbe(): CanvasRenderingContext2D | null {
+  if (!probe && typeof document !== "undefined") {
+    const canvas = document.createElement("canvas");
+    canvas.width = 1;
+    canvas.height = 1;
+    probe = canvas.getContext("2d", { willReadFrequently: true });
+  }
+  return probe;
+}
+
+/** A CSS colour, or a custom property name like "--muted", as 0-1 RGB */
+export function parseCssColor(value: string): FluidColor | null {
+  const ctx = getProbe();
+  if (!ctx) return null;
+  const color = value.startsWith("--")
+    ? getComputedStyle(document.documentElement).getPropertyValue(value).trim()
+    : value;
+  if (!color) return null;
+
+  // Invalid colours leave fillStyle unchanged. A valid colour can equal one
+  // sentinel but not both, so it is rejected only if both survive.
+  const rejected = ["#000", "#fff"].every((sentinel) => {
+    ctx.fillStyle = sentinel;
+    const before = ctx.fillStyle;
+    ctx.fillStyle = color;
+    return ctx.fillStyle === before;
+  });
+  if (rejected) return null;
+
+  ctx.clearRect(0, 0, 1, 1);
+  ctx.fillRect(0, 0, 1, 1);
+  const data = ctx.getImageData(0, 0, 1, 1).data;
+  return { r: data[0] / 255, g: data[1] / 255, b: data[2] / 255 };
+}
+
+/**
+ * For colorMode "theme", a config whose palette holds the resolved
+ * themeColors; any other config is returned as-is. Read again whenever the
+ * theme changes, e.g. keyed on useThemeVersion().
+ */
+export function applyThemeColors<Config extends Partial<FluidConfig>>(config: Config): Config {
+  if (config.colorMode !== "theme") return config;
+  const names = config.themeColors ?? defaultConfig.themeColors;
+  const palette = names.map(parseCssColor).filter((color): color is FluidColor => color !== null);
+  return palette.length > 0 ? { ...config, palette } : config;
+}
@@ -0,0 +1,55 @@
+/// <reference lib="webworker" />
+
+// Worker entry for FluidWorkerClient. Owns the transferred OffscreenCanvas
+// and a regular FluidSimulation; requestAnimationFrame in a dedicated worker
+// is tied to the display the same way as on the page.
+
+import { FluidSimulation } from "./FluidSimulation";
+import type { FluidWorkerRequest, FluidWorkerEvent } from "./FluidWorker";
+
+// The project compiles against the DOM lib, where self is the window
+declare const self: DedicatedWorkerGlobalScope;
+
+function post(message: FluidWorkerEvent): void {
+  self.postMessage(message);
+}
+
+let canvas: OffscreenCanvas | null = null;
+let simulation: FluidSimulation | null = null;
+
+self.onmessage = (event: MessageEvent<FluidWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "init": {
+      canvas = message.canvas;
+      try {
+        simulation = new FluidSimulation(canvas, message.config, {
+          onContextLost: () => post({ type: "contextLost" }),
+          onContextRestored: () => post({ type: "contextRestored" }),
+        });
+        simulation.start();
+        if (!message.visible) simulation.stop();
+        post({ type: "ready" });
+      } catch (error) {
+        post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+    }
+    case "resize":
+      if (!canvas) break;
+      canvas.width = message.width;
+      canvas.height = message.height;
+      simulation?.resize();
+      break;
+    case "call":
+      if (!simulation) break;
+      (simulation[message.method] as (...args: unknown[]) => void).apply(simulation, message.args);
+      break;
+    case "dispose":
+      simulation?.dispose();
+      simulation = null;
+      canvas = null;
+      self.close();
+      break;
+  }
+};
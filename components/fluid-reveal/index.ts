@@ -1,6 +1,22 @@
 export { FluidCanvas, defaultConfig } from "./FluidCanvas";
 export type { FluidConfig } from "./FluidCanvas";
 export { FluidSimulation } from "./FluidSimulation";
+export type { FluidColor, FluidPoint, FluidEmitterOptions, FluidSimulationOptions } from "./FluidSimulation";
 export { FluidReveal } from "./FluidReveal";
 export { FluidMaskScene, defaultFluidMaskConfig } from "./FluidMaskScene";
 export type { FluidMaskConfig } from "./FluidMaskScene";
+export { FluidSolver } from "./FluidSolver";
+export type { FluidBackend, FluidTarget, FluidObstacle, FluidAdvectionScheme, FluidColorMode } from "./FluidSolver";
+export { QualityGovernor, qualityTiers } from "./quality";
+export type { QualityTier } from "./quality";
+export { createTextOverlay } from "./overlay";
+export type { OverlayContent, OverlayLayout, OverlayImage, OverlayTextRun } from "./overlay";
+export { FluidCoverContext, useFluidVisibility } from "./visibility";
+export { detectFluidRenderer } from "./capabilities";
+export type { FluidRenderer } from "./capabilities";
+export { FluidWorkerClient, supportsOffscreenFluid } from "./FluidWorker";
+export type { FluidController } from "./FluidWorker";
+export { encodeSnapshot, decodeSnapshot, saveSnapshot, loadSnapshot } from "./snapshot";
+export type { FluidSnapshot } from "./snapshot";
+export { parseRecording } from "./recording";
+export type { FluidRecording, FluidRecordingEvent, FluidRecordedInput, FluidReplayOptions } from "./recording";
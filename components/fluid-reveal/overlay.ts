@@ -0,0 +1,207 @@
+// Overlay content for FluidMaskScene: the covering layer the fluid scratches
+// away. Drawn into a 2D canvas at device resolution and uploaded as the base
+// texture. Sizes are fractions of the overlay so the layout scales with the
+// viewport; colors are CSS colors, or custom property names like "--muted".
+
+export interface OverlayTextRun {
+  text: string;
+  /** CSS font-family list (default "Instrument Serif", Georgia, serif) */
+  font?: string;
+  /** Font size as a fraction of the overlay height (default 0.18) */
+  size?: number;
+  weight?: number | string;
+  style?: "normal" | "italic";
+  /** Default "--foreground" */
+  color?: string;
+  /** Line height as a multiple of the font size (default 1.1) */
+  lineHeight?: number;
+  /** Extra space above the run, as a multiple of its font size */
+  marginTop?: number;
+}
+
+export interface OverlayBox {
+  /** Default "--background" */
+  background?: string;
+  /** Inset as a fraction of the shorter side, or [top, right, bottom, left] */
+  padding?: number | [number, number, number, number];
+}
+
+/**
+ * Stacked text runs. Each run starts on a new line and may contain "\n".
+ * Runs are never wrapped; the whole block shrinks to fit the padded width.
+ */
+export interface OverlayLayout extends OverlayBox {
+  type: "layout";
+  runs: OverlayTextRun[];
+  align?: "left" | "center" | "right";
+  verticalAlign?: "top" | "middle" | "bottom";
+}
+
+/** An image URL, or inline SVG markup, fitted into the padded box and centered */
+export interface OverlayImage extends OverlayBox {
+  type: "image" | "svg";
+  /** Image URL for "image", SVG markup for "svg" */
+  source: string;
+  fit?: "contain" | "cover";
+}
+
+export type OverlayContent = OverlayLayout | OverlayImage;
+
+const DEFAULT_FONT = `"Instrument Serif", Georgia, serif`;
+
+/** The classic centered headline with an optional muted subtitle */
+export function createTextOverlay(text: string, subtext?: string): OverlayLayout {
+  const runs: OverlayTextRun[] = [{ text, size: 0.18 }];
+  if (subtext) {
+    runs.push({
+      text: subtext,
+      font: "system-ui, -apple-system, sans-serif",
+      size: 0.18 * 0.12,
+      color: "--muted",
+      marginTop: 2,
+    });
+  }
+  return { type: "layout", runs };
+}
+
+function resolveColor(color: string, fallback: string): string {
+  if (!color.startsWith("--") || typeof window === "undefined") return color;
+  const value = getComputedStyle(document.documentElement).getPropertyValue(color).trim();
+  return value || fallback;
+}
+
+function getPadding(box: OverlayBox, width: number, height: number): [number, number, number, number] {
+  const unit = Math.min(width, height);
+  const padding = box.padding ?? 0;
+  const [top, right, bottom, left] = Array.isArray(padding) ? padding : [padding, padding, padding, padding];
+  return [top * unit, right * unit, bottom * unit, left * unit];
+}
+
+function getFont(run: OverlayTextRun, fontSize: number): string {
+  return `${run.style ?? "normal"} ${run.weight ?? 400} ${fontSize}px ${run.font ?? DEFAULT_FONT}`;
+}
+
+// Resolves once every face the runs use is ready, so the first draw never
+// lands on a fallback font. Unknown families resolve with no faces.
+async function loadFonts(runs: OverlayTextRun[]): Promise<void> {
+  if (typeof document === "undefined" || !document.fonts) return;
+  await Promise.all(
+    runs.map((run) => document.fonts.load(getFont(run, 16), run.text).catch(() => []))
+  );
+  await document.fonts.ready;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    // Keeps remote images uploadable to WebGL when the server allows it
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load overlay image: ${src.slice(0, 64)}`));
+    image.src = src;
+  });
+}
+
+function drawLayout(ctx: CanvasRenderingContext2D, layout: OverlayLayout, width: number, height: number): void {
+  const [top, right, bottom, left] = getPadding(layout, width, height);
+  const boxWidth = Math.max(1, width - left - right);
+  const boxHeight = Math.max(1, height - top - bottom);
+
+  // Measure at nominal size, then scale the block down if it overflows
+  const lines: { text: string; run: OverlayTextRun; offset: number; lineHeight: number }[] = [];
+  let blockHeight = 0;
+  let blockWidth = 0;
+  layout.runs.forEach((run, index) => {
+    const fontSize = (run.size ?? 0.18) * height;
+    const lineHeight = fontSize * (run.lineHeight ?? 1.1);
+    if (index > 0) blockHeight += fontSize * (run.marginTop ?? 0);
+    ctx.font = getFont(run, fontSize);
+    run.text.split("\n").forEach((text) => {
+      blockWidth = Math.max(blockWidth, ctx.measureText(text).width);
+      lines.push({ text, run, offset: blockHeight, lineHeight });
+      blockHeight += lineHeight;
+    });
+  });
+  const scale = Math.min(1, boxWidth / Math.max(blockWidth, 1), boxHeight / Math.max(blockHeight, 1));
+
+  const align = layout.align ?? "center";
+  const verticalAlign = layout.verticalAlign ?? "middle";
+  const x = align === "left" ? left : align === "right" ? width - right : left + boxWidth / 2;
+  const y =
+    verticalAlign === "top" ? top
+    : verticalAlign === "bottom" ? height - bottom - blockHeight * scale
+    : top + (boxHeight - blockHeight * scale) / 2;
+
+  ctx.textAlign = align;
+  ctx.textBaseline = "middle";
+  for (const line of lines) {
+    const fontSize = (line.run.size ?? 0.18) * height * scale;
+    ctx.font = getFont(line.run, fontSize);
+    ctx.fillStyle = resolveColor(line.run.color ?? "--foreground", "#fafafa");
+    ctx.fillText(line.text, x, y + (line.offset + line.lineHeight / 2) * scale);
+  }
+}
+
+async function drawImage(ctx: CanvasRenderingContext2D, content: OverlayImage, width: number, height: number): Promise<void> {
+  const src = content.type === "svg"
+    ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(content.source)}`
+    : content.source;
+  const image = await loadImage(src);
+
+  const [top, right, bottom, left] = getPadding(content, width, height);
+  const boxWidth = Math.max(1, width - left - right);
+  const boxHeight = Math.max(1, height - top - bottom);
+  // SVGs without intrinsic size report 0; treat them as filling the box
+  const imageWidth = image.naturalWidth || boxWidth;
+  const imageHeight = image.naturalHeight || boxHeight;
+  const fitScale = content.fit === "cover"
+    ? Math.max(boxWidth / imageWidth, boxHeight / imageHeight)
+    : Math.min(boxWidth / imageWidth, boxHeight / imageHeight);
+  const drawWidth = imageWidth * fitScale;
+  const drawHeight = imageHeight * fitScale;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(left, top, boxWidth, boxHeight);
+  ctx.clip();
+  ctx.drawImage(image, left + (boxWidth - drawWidth) / 2, top + (boxHeight - drawHeight) / 2, drawWidth, drawHeight);
+  ctx.restore();
+}
+
+/**
+ * Draws overlay content into a new canvas of the given CSS size. Waits for
+ * web fonts and images; if an image fails to load the background is still
+ * drawn, so the hero keeps covering the page.
+ */
+export async function drawOverlay(
+  content: OverlayContent,
+  width: number,
+  height: number,
+  pixelRatio = 1
+): Promise<HTMLCanvasElement> {
+  if (content.type === "layout") {
+    await loadFonts(content.runs);
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.floor(width * pixelRatio));
+  canvas.height = Math.max(1, Math.floor(height * pixelRatio));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("2D canvas not supported");
+  }
+
+  ctx.fillStyle = resolveColor(content.background ?? "--background", "#0a0a0a");
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (content.type === "layout") {
+    drawLayout(ctx, content, canvas.width, canvas.height);
+  } else {
+    try {
+      await drawImage(ctx, content, canvas.width, canvas.height);
+    } catch (error) {
+      console.warn(error);
+    }
+  }
+  return canvas;
+}
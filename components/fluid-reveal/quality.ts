@@ -0,0 +1,127 @@
+// Adaptive quality for the fluid renderers. The governor watches frame times
+// and walks a fixed ladder of tiers: down quickly when frames run long, up
+// slowly when there is headroom, and never back up to a tier that already
+// failed more than once.
+
+export interface QualityTier {
+  simResolution: number;
+  dyeResolution: number;
+  pressureIterations: number;
+  /** Upper bound for the device pixel ratio */
+  dpr: number;
+}
+
+export const qualityTiers: QualityTier[] = [
+  { simResolution: 64, dyeResolution: 256, pressureIterations: 10, dpr: 0.75 },
+  { simResolution: 96, dyeResolution: 512, pressureIterations: 20, dpr: 1 },
+  { simResolution: 128, dyeResolution: 1024, pressureIterations: 30, dpr: 1.5 },
+  { simResolution: 160, dyeResolution: 1024, pressureIterations: 40, dpr: 2 },
+  { simResolution: 256, dyeResolution: 2048, pressureIterations: 50, dpr: 2 },
+];
+
+export interface QualityGovernorOptions {
+  minTier: number;
+  maxTier: number;
+  initialTier?: number;
+  /** Frame rate to hold, in frames per second */
+  targetFrameRate?: number;
+}
+
+// Frames to average before judging a tier, and to wait after any change
+const SETTLE_FRAMES = 30;
+const DOWNGRADE_WINDOW = 60;
+const UPGRADE_WINDOW = 240;
+// Frames longer than this are stalls (tab switch, GC), not a GPU verdict
+const MAX_SAMPLE = 0.25;
+
+function clampTier(tier: number): number {
+  return Math.max(0, Math.min(qualityTiers.length - 1, Math.round(tier)));
+}
+
+export class QualityGovernor {
+  private minTier: number;
+  private maxTier: number;
+  private budget: number;
+  private tier: number;
+  private frames = 0;
+  private total = 0;
+  private settle = SETTLE_FRAMES;
+  private failures = new Map<number, number>();
+
+  constructor(options: QualityGovernorOptions) {
+    this.minTier = clampTier(options.minTier);
+    this.maxTier = Math.max(this.minTier, clampTier(options.maxTier));
+    this.budget = 1 / (options.targetFrameRate ?? 60);
+    this.tier = this.clamp(options.initialTier ?? Math.floor((this.minTier + this.maxTier) / 2));
+  }
+
+  private clamp(tier: number): number {
+    return Math.max(this.minTier, Math.min(this.maxTier, clampTier(tier)));
+  }
+
+  public getTier(): number {
+    return this.tier;
+  }
+
+  public getSettings(): QualityTier {
+    return qualityTiers[this.tier];
+  }
+
+  /** Narrows or widens the allowed range, returning the tier to use afterwards */
+  public setBounds(minTier: number, maxTier: number): number {
+    this.minTier = clampTier(minTier);
+    this.maxTier = Math.max(this.minTier, clampTier(maxTier));
+    this.setTier(this.clamp(this.tier));
+    return this.tier;
+  }
+
+  private setTier(tier: number): void {
+    if (tier === this.tier) return;
+    this.tier = tier;
+    this.frames = 0;
+    this.total = 0;
+    this.settle = SETTLE_FRAMES;
+  }
+
+  /**
+   * Records one frame's duration in seconds. Returns the new tier when it
+   * changed, otherwise null.
+   */
+  public sample(frameTime: number): number | null {
+    if (frameTime <= 0 || frameTime > MAX_SAMPLE) return null;
+    if (this.settle > 0) {
+      this.settle--;
+      return null;
+    }
+
+    this.frames++;
+    this.total += frameTime;
+    const average = this.total / this.frames;
+
+    // Frames landing well past budget: step down and remember the failure
+    if (this.frames >= DOWNGRADE_WINDOW && average > this.budget * 1.2) {
+      if (this.tier > this.minTier) {
+        this.failures.set(this.tier, (this.failures.get(this.tier) ?? 0) + 1);
+        this.setTier(this.tier - 1);
+        return this.tier;
+      }
+      this.frames = 0;
+      this.total = 0;
+      return null;
+    }
+
+    if (this.frames >= UPGRADE_WINDOW) {
+      const next = this.tier + 1;
+      const canUpgrade = next <= this.maxTier && (this.failures.get(next) ?? 0) < 2;
+      // Frame times are capped by vsync, so holding the target is the best
+      // evidence of headroom the page can get
+      if (canUpgrade && average <= this.budget * 1.05) {
+        this.setTier(next);
+        return this.tier;
+      }
+      this.frames = 0;
+      this.total = 0;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+// Rasterizes a DOM subtree into a canvas through an SVG foreignObject.
+// Computed styles are inlined because the SVG image cannot see the page's
+// stylesheets. Cross-origin images and not-yet-loaded web fonts will not
+// survive the trip, and some browsers taint the result - callers should
+// be ready to fall back when uploading it to WebGL throws.
+
+function cloneWithStyles(source: Element): Element {
+  const clone = source.cloneNode(false) as Element;
+
+  const computed = getComputedStyle(source);
+  let cssText = "";
+  for (let i = 0; i < computed.length; i++) {
+    const name = computed[i];
+    cssText += `${name}:${computed.getPropertyValue(name)};`;
+  }
+  clone.setAttribute("style", cssText);
+
+  source.childNodes.forEach((child) => {
+    if (child.nodeType === Node.ELEMENT_NODE) {
+      clone.appendChild(cloneWithStyles(child as Element));
+    } else if (child.nodeType === Node.TEXT_NODE) {
+      clone.appendChild(child.cloneNode());
+    }
+  });
+
+  return clone;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load rasterized element"));
+    image.src = src;
+  });
+}
+
+export async function rasterizeElement(
+  element: HTMLElement,
+  width: number,
+  height: number,
+  pixelRatio = 1
+): Promise<HTMLCanvasElement> {
+  const clone = cloneWithStyles(element) as HTMLElement;
+  clone.style.width = `${width}px`;
+  clone.style.height = `${height}px`;
+  clone.style.margin = "0";
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject>` +
+    `</svg>`;
+
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.floor(width * pixelRatio));
+  canvas.height = Math.max(1, Math.floor(height * pixelRatio));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("2D canvas not supported");
+  }
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
@@ -0,0 +1,50 @@
+import type { FluidColor, FluidConfig, FluidEmitterOptions } from "./FluidSolver";
+
+// Input sessions recorded by FluidSolver. Events are keyed to the simulation
+// step they were applied before, not to wall-clock time, so a replay feeds
+// the same input into the same fixed-size steps at any frame rate.
+
+export type FluidRecordedInput =
+  | { type: "pointerDown"; id: number; x: number; y: number; pressure?: number }
+  | { type: "pointerMove"; id: number; x: number; y: number; pressure?: number }
+  | { type: "pointerUp"; id: number }
+  | { type: "splat"; x: number; y: number; dx: number; dy: number; color?: FluidColor; radiusScale: number }
+  | { type: "addEmitter"; name: string; options: FluidEmitterOptions }
+  | { type: "removeEmitter"; name: string }
+  | { type: "clearEmitters" }
+  | { type: "config"; config: Partial<FluidConfig> };
+
+/**
+ * One solver call. `step` is the number of steps run before it and `time`
+ * the simulated seconds at that point. Pointer positions are texture
+ * coordinates (origin bottom-left) as the solver received them; splats use
+ * splat()'s normalized coordinates and deltas.
+ */
+export type FluidRecordingEvent = { step: number; time: number } & FluidRecordedInput;
+
+export interface FluidRecording {
+  version: 1;
+  /** The full config when recording started, always with a fixed timestep */
+  config: FluidConfig;
+  /** Drawing buffer size while recording; frames match exactly at this size */
+  width: number;
+  height: number;
+  /** Steps the recording lasts */
+  steps: number;
+  events: FluidRecordingEvent[];
+}
+
+export interface FluidReplayOptions {
+  /** Start over from a cleared simulation when the recording ends */
+  loop?: boolean;
+  onEnd?: () => void;
+}
+
+/** Reads a recording saved with JSON.stringify; throws if it is not one */
+export function parseRecording(json: string): FluidRecording {
+  const recording = JSON.parse(json) as FluidRecording;
+  if (!recording || recording.version !== 1 || !Array.isArray(recording.events) || !recording.config) {
+    throw new Error("Not a fluid recording");
+  }
+  return recording;
+}
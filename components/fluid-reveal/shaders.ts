@@ -44,6 +44,43 @@ export const clearShader = `
   }
 `;
 
+// Post effects shared by the display shaders, switched on with the BLOOM,
+// SUNRAYS and DITHERING keywords. uBloom and uSunrays come from FluidSolver.
+const displayEffects = `
+  #ifdef BLOOM
+  uniform sampler2D uBloom;
+  uniform float uBloomIntensity;
+  #endif
+  #ifdef SUNRAYS
+  uniform sampler2D uSunrays;
+  #endif
+
+  float sunraysShade () {
+  #ifdef SUNRAYS
+    return texture2D(uSunrays, vUv).r;
+  #else
+    return 1.0;
+  #endif
+  }
+
+  vec3 bloomGlow () {
+  #ifdef BLOOM
+    return texture2D(uBloom, vUv).rgb * uBloomIntensity * sunraysShade();
+  #else
+    return vec3(0.0);
+  #endif
+  }
+
+  // Interleaved gradient noise of +-half an 8-bit step against banding
+  vec3 dither (vec3 color) {
+  #ifdef DITHERING
+    float noise = fract(52.9829189 * fract(dot(gl_FragCoord.xy, vec2(0.06711056, 0.00583715))));
+    color += (noise - 0.5) / 255.0;
+  #endif
+    return color;
+  }
+`;
+
 export const displayShader = `
   precision highp float;
   precision highp sampler2D;
@@ -57,16 +94,91 @@ export const displayShader = `
   }
 `;
 
+// Draws the dye premultiplied with its brightest channel as alpha, so grey
+// dye doubles as a luminance mask and coloured dye keeps its colour
 export const displayMaskShader = `
   precision highp float;
   precision highp sampler2D;
   varying vec2 vUv;
   uniform sampler2D uTexture;
+  ${displayEffects}
+
+  void main () {
+    vec3 c = texture2D(uTexture, vUv).rgb * sunraysShade() + bloomGlow();
+    float intensity = max(c.r, max(c.g, c.b));
+    gl_FragColor = vec4(dither(c), intensity);
+  }
+`;
+
+// Composites a reveal image through the dye mask, premultiplied for the canvas.
+// Bloom glows on top of the image, including just outside the revealed area.
+export const displayRevealShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform sampler2D uReveal;
+  ${displayEffects}
 
   void main () {
     vec3 c = texture2D(uTexture, vUv).rgb;
-    float intensity = (c.r + c.g + c.b) / 3.0;
-    gl_FragColor = vec4(vec3(intensity), intensity);
+    float intensity = clamp(max(c.r, max(c.g, c.b)), 0.0, 1.0);
+    vec4 color = texture2D(uReveal, vUv) * intensity;
+    color.rgb *= sunraysShade();
+    vec3 glow = bloomGlow();
+    color += vec4(glow, max(glow.r, max(glow.g, glow.b)));
+    gl_FragColor = vec4(dither(color.rgb), clamp(color.a, 0.0, 1.0));
+  }
+`;
+
+// Covers the page with a base layer and cuts holes where dye has been painted,
+// revealing whatever sits underneath the canvas. uPreviousBaseTexture fades
+// out under uBaseTexture as uBaseMix goes from 0 to 1. Sunrays shade the
+// cover; bloom adds a glow around the holes that also spills into them.
+export const displayCompositeShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uMask;
+  uniform sampler2D uBaseTexture;
+  uniform sampler2D uPreviousBaseTexture;
+  uniform bool uHasBaseTexture;
+  uniform bool uHasPreviousBaseTexture;
+  uniform float uBaseMix;
+  uniform vec3 uBackgroundColor;
+  ${displayEffects}
+
+  void main () {
+    // Any dye colour cuts by its brightest channel
+    vec3 dye = texture2D(uMask, vUv).rgb;
+    float mask = max(dye.r, max(dye.g, dye.b));
+
+    // Apply smooth curve for more organic feel
+    float smoothMask = smoothstep(0.0, 0.8, mask);
+
+    // Where mask is high (fluid painted), alpha is low (transparent to reveal content below)
+    float alpha = 1.0 - smoothMask;
+
+    if (uHasBaseTexture) {
+      vec4 baseColor = texture2D(uBaseTexture, vUv);
+      if (uHasPreviousBaseTexture) {
+        baseColor = mix(texture2D(uPreviousBaseTexture, vUv), baseColor, uBaseMix);
+      }
+      gl_FragColor = vec4(baseColor.rgb, baseColor.a * alpha);
+    } else {
+      gl_FragColor = vec4(uBackgroundColor * alpha, alpha);
+    }
+
+    gl_FragColor.rgb *= sunraysShade();
+  #ifdef BLOOM
+    // Blended with (SRC_ALPHA, ONE_MINUS_SRC_ALPHA): raise alpha by the glow and
+    // scale the colour back so the glow lands additively over the page
+    vec3 glow = bloomGlow();
+    float coverAlpha = gl_FragColor.a;
+    float glowAlpha = clamp(coverAlpha + max(glow.r, max(glow.g, glow.b)) * (1.0 - coverAlpha), 0.0, 1.0);
+    gl_FragColor = vec4((gl_FragColor.rgb * coverAlpha + glow) / max(glowAlpha, 0.0001), glowAlpha);
+  #endif
+    gl_FragColor.rgb = dither(gl_FragColor.rgb);
   }
 `;
 
@@ -79,11 +191,17 @@ export const splatShader = `
   uniform vec3 color;
   uniform vec2 point;
   uniform float radius;
+  #ifdef OBSTACLES
+  uniform sampler2D uObstacles;
+  #endif
 
   void main () {
     vec2 p = vUv - point.xy;
     p.x *= aspectRatio;
     vec3 splat = exp(-dot(p, p) / radius) * color;
+  #ifdef OBSTACLES
+    splat *= 1.0 - texture2D(uObstacles, vUv).r;
+  #endif
     vec3 base = texture2D(uTarget, vUv).xyz;
     gl_FragColor = vec4(base + splat, 1.0);
   }
@@ -97,8 +215,16 @@ export const advectionShader = `
   uniform sampler2D uSource;
   uniform vec2 texelSize;
   uniform vec2 dyeTexelSize;
+  // The distance one unit of velocity moves the source, usually texelSize
+  uniform vec2 displacementTexelSize;
   uniform float dt;
   uniform float dissipation;
+  #ifdef OBSTACLES
+  uniform sampler2D uObstacles;
+  #endif
+  #ifdef LIMITER
+  uniform sampler2D uLimit;
+  #endif
 
   vec4 bilerp (sampler2D sam, vec2 uv, vec2 tsize) {
     vec2 st = uv / tsize - 0.5;
@@ -111,10 +237,33 @@ export const advectionShader = `
     return mix(mix(a, b, fuv.x), mix(c, d, fuv.x), fuv.y);
   }
 
+  // Clamps to the range of the four texels a trace to uv interpolates
+  // between, so error correction cannot overshoot into new extrema
+  vec4 limit (sampler2D sam, vec2 uv, vec2 tsize, vec4 value) {
+    vec2 iuv = floor(uv / tsize - 0.5);
+    vec4 a = texture2D(sam, (iuv + vec2(0.5, 0.5)) * tsize);
+    vec4 b = texture2D(sam, (iuv + vec2(1.5, 0.5)) * tsize);
+    vec4 c = texture2D(sam, (iuv + vec2(0.5, 1.5)) * tsize);
+    vec4 d = texture2D(sam, (iuv + vec2(1.5, 1.5)) * tsize);
+    return clamp(value, min(min(a, b), min(c, d)), max(max(a, b), max(c, d)));
+  }
+
   void main () {
-    vec2 coord = vUv - dt * bilerp(uVelocity, vUv, texelSize).xy * texelSize;
+  #ifdef MANUAL_FILTERING
+    vec2 coord = vUv - dt * bilerp(uVelocity, vUv, texelSize).xy * displacementTexelSize;
     vec4 result = bilerp(uSource, coord, dyeTexelSize);
+  #else
+    vec2 coord = vUv - dt * texture2D(uVelocity, vUv).xy * displacementTexelSize;
+    vec4 result = texture2D(uSource, coord);
+  #endif
+  #ifdef LIMITER
+    result = limit(uLimit, coord, dyeTexelSize, result);
+  #endif
     float decay = 1.0 + dissipation * dt;
+  #ifdef OBSTACLES
+    // Nothing is carried into solid cells
+    result *= 1.0 - texture2D(uObstacles, vUv).r;
+  #endif
     gl_FragColor = result / decay;
   }
 `;
@@ -128,6 +277,9 @@ export const divergenceShader = `
   varying highp vec2 vT;
   varying highp vec2 vB;
   uniform sampler2D uVelocity;
+  #ifdef OBSTACLES
+  uniform sampler2D uObstacles;
+  #endif
 
   void main () {
     float L = texture2D(uVelocity, vL).x;
@@ -139,6 +291,13 @@ export const divergenceShader = `
     if (vR.x > 1.0) { R = -C.x; }
     if (vT.y > 1.0) { T = -C.y; }
     if (vB.y < 0.0) { B = -C.y; }
+  #ifdef OBSTACLES
+    // Obstacle faces are walls, like the screen edges
+    if (texture2D(uObstacles, vL).r > 0.5) { L = -C.x; }
+    if (texture2D(uObstacles, vR).r > 0.5) { R = -C.x; }
+    if (texture2D(uObstacles, vT).r > 0.5) { T = -C.y; }
+    if (texture2D(uObstacles, vB).r > 0.5) { B = -C.y; }
+  #endif
     float div = 0.5 * (R - L + T - B);
     gl_FragColor = vec4(div, 0.0, 0.0, 1.0);
   }
@@ -202,6 +361,9 @@ export const pressureShader = `
   varying highp vec2 vB;
   uniform sampler2D uPressure;
   uniform sampler2D uDivergence;
+  #ifdef OBSTACLES
+  uniform sampler2D uObstacles;
+  #endif
 
   void main () {
     float L = texture2D(uPressure, vL).x;
@@ -209,6 +371,13 @@ export const pressureShader = `
     float T = texture2D(uPressure, vT).x;
     float B = texture2D(uPressure, vB).x;
     float C = texture2D(uPressure, vUv).x;
+  #ifdef OBSTACLES
+    // Zero pressure gradient across obstacle faces
+    if (texture2D(uObstacles, vL).r > 0.5) { L = C; }
+    if (texture2D(uObstacles, vR).r > 0.5) { R = C; }
+    if (texture2D(uObstacles, vT).r > 0.5) { T = C; }
+    if (texture2D(uObstacles, vB).r > 0.5) { B = C; }
+  #endif
     float divergence = texture2D(uDivergence, vUv).x;
     float pressure = (L + R + B + T - divergence) * 0.25;
     gl_FragColor = vec4(pressure, 0.0, 0.0, 1.0);
@@ -225,14 +394,329 @@ export const gradientSubtractShader = `
   varying highp vec2 vB;
   uniform sampler2D uPressure;
   uniform sampler2D uVelocity;
+  #ifdef OBSTACLES
+  uniform sampler2D uObstacles;
+  #endif
 
   void main () {
     float L = texture2D(uPressure, vL).x;
     float R = texture2D(uPressure, vR).x;
     float T = texture2D(uPressure, vT).x;
     float B = texture2D(uPressure, vB).x;
+  #ifdef OBSTACLES
+    float C = texture2D(uPressure, vUv).x;
+    bool solidL = texture2D(uObstacles, vL).r > 0.5;
+    bool solidR = texture2D(uObstacles, vR).r > 0.5;
+    bool solidT = texture2D(uObstacles, vT).r > 0.5;
+    bool solidB = texture2D(uObstacles, vB).r > 0.5;
+    if (solidL) { L = C; }
+    if (solidR) { R = C; }
+    if (solidT) { T = C; }
+    if (solidB) { B = C; }
+  #endif
     vec2 velocity = texture2D(uVelocity, vUv).xy;
     velocity.xy -= vec2(R - L, T - B);
+  #ifdef OBSTACLES
+    // No flow into a neighbouring solid; NO_SLIP also stops flow along it
+    if (solidL) { velocity.x = max(velocity.x, 0.0); }
+    if (solidR) { velocity.x = min(velocity.x, 0.0); }
+    if (solidB) { velocity.y = max(velocity.y, 0.0); }
+    if (solidT) { velocity.y = min(velocity.y, 0.0); }
+    #ifdef NO_SLIP
+    if (solidL || solidR) { velocity.y = 0.0; }
+    if (solidT || solidB) { velocity.x = 0.0; }
+    #endif
+    velocity *= 1.0 - step(0.5, texture2D(uObstacles, vUv).r);
+  #endif
     gl_FragColor = vec4(velocity, 0.0, 1.0);
   }
 `;
+
+// 2x2 box downsample for coverage measurement. With REVEAL_CURVE the taps read
+// the dye and go through the same curve displayCompositeShader cuts holes with.
+export const coverageShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform vec2 sourceTexelSize;
+
+  float tap (vec2 offset) {
+  #ifdef REVEAL_CURVE
+    vec3 dye = texture2D(uTexture, vUv + offset * sourceTexelSize).rgb;
+    float value = smoothstep(0.0, 0.8, max(dye.r, max(dye.g, dye.b)));
+  #else
+    float value = texture2D(uTexture, vUv + offset * sourceTexelSize).r;
+  #endif
+    return value;
+  }
+
+  void main () {
+    float sum = tap(vec2(-0.5, -0.5)) + tap(vec2(0.5, -0.5)) + tap(vec2(-0.5, 0.5)) + tap(vec2(0.5, 0.5));
+    gl_FragColor = vec4(sum * 0.25, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Adds one obstacle shape to the mask in uTarget. point is the centre in
+// texture space; halfSize is the rectangle's half extents, or the circle's
+// radius (relative to the height) in x when uCircle is 1.
+export const obstacleShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uTarget;
+  uniform float aspectRatio;
+  uniform vec2 point;
+  uniform vec2 halfSize;
+  uniform float uCircle;
+
+  void main () {
+    vec2 d = vUv - point;
+    float rect = step(abs(d.x), halfSize.x) * step(abs(d.y), halfSize.y);
+    d.x *= aspectRatio;
+    float circle = step(length(d), halfSize.x);
+    float inside = mix(rect, circle, uCircle);
+    gl_FragColor = vec4(max(texture2D(uTarget, vUv).r, inside), 0.0, 0.0, 1.0);
+  }
+`;
+
+// Adds an image to the obstacle mask: opaque pixels are solid
+export const obstacleImageShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uTarget;
+  uniform sampler2D uImage;
+
+  void main () {
+    float solid = step(0.5, texture2D(uImage, vUv).a);
+    gl_FragColor = vec4(max(texture2D(uTarget, vUv).r, solid), 0.0, 0.0, 1.0);
+  }
+`;
+
+// Error correction for MacCormack and BFECC advection: uBase plus half the
+// round-trip error between uSource and uBackward (uSource advected forward
+// and back again). With LIMITER the result is clamped like advectionShader's.
+export const advectionCorrectionShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uVelocity;
+  uniform sampler2D uBase;
+  uniform sampler2D uSource;
+  uniform sampler2D uBackward;
+  uniform vec2 texelSize;
+  uniform vec2 dyeTexelSize;
+  uniform vec2 displacementTexelSize;
+  uniform float dt;
+  uniform float dissipation;
+  #ifdef OBSTACLES
+  uniform sampler2D uObstacles;
+  #endif
+
+  void main () {
+    vec4 source = texture2D(uSource, vUv);
+    vec4 result = texture2D(uBase, vUv) + 0.5 * (source - texture2D(uBackward, vUv));
+  #ifdef LIMITER
+    vec2 coord = vUv - dt * texture2D(uVelocity, vUv).xy * displacementTexelSize;
+    vec2 iuv = floor(coord / dyeTexelSize - 0.5);
+    vec4 a = texture2D(uSource, (iuv + vec2(0.5, 0.5)) * dyeTexelSize);
+    vec4 b = texture2D(uSource, (iuv + vec2(1.5, 0.5)) * dyeTexelSize);
+    vec4 c = texture2D(uSource, (iuv + vec2(0.5, 1.5)) * dyeTexelSize);
+    vec4 d = texture2D(uSource, (iuv + vec2(1.5, 1.5)) * dyeTexelSize);
+    result = clamp(result, min(min(a, b), min(c, d)), max(max(a, b), max(c, d)));
+  #endif
+  #ifdef OBSTACLES
+    result *= 1.0 - texture2D(uObstacles, vUv).r;
+  #endif
+    float decay = 1.0 + dissipation * dt;
+    gl_FragColor = result / decay;
+  }
+`;
+
+// Multigrid restriction: residual of the pressure equation at the four fine
+// texels under each coarse texel, summed. The sum is the average scaled by 4,
+// since the coarse grid's spacing is twice the fine one.
+export const residualRestrictShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uPressure;
+  uniform sampler2D uDivergence;
+  uniform vec2 fineTexelSize;
+
+  float residual (vec2 uv) {
+    vec2 dx = vec2(fineTexelSize.x, 0.0);
+    vec2 dy = vec2(0.0, fineTexelSize.y);
+    float C = texture2D(uPressure, uv).x;
+    float neighbours = texture2D(uPressure, uv - dx).x + texture2D(uPressure, uv + dx).x
+      + texture2D(uPressure, uv - dy).x + texture2D(uPressure, uv + dy).x;
+    return texture2D(uDivergence, uv).x - (neighbours - 4.0 * C);
+  }
+
+  void main () {
+    vec2 h = 0.5 * fineTexelSize;
+    float sum = residual(vUv + vec2(-h.x, -h.y)) + residual(vUv + vec2(h.x, -h.y))
+      + residual(vUv + vec2(-h.x, h.y)) + residual(vUv + vec2(h.x, h.y));
+    gl_FragColor = vec4(sum, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Multigrid prolongation: adds the interpolated coarse error to the fine field
+export const prolongShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uPressure;
+  uniform sampler2D uCorrection;
+
+  void main () {
+    float pressure = texture2D(uPressure, vUv).x + texture2D(uCorrection, vUv).x;
+    gl_FragColor = vec4(pressure, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Bloom prefilter: keeps dye brighter than threshold, with a quadratic soft
+// knee. curve is (threshold - knee, knee * 2, 0.25 / knee).
+export const bloomPrefilterShader = `
+  precision mediump float;
+  precision mediump sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform vec3 curve;
+  uniform float threshold;
+
+  void main () {
+    vec3 c = texture2D(uTexture, vUv).rgb;
+    float br = max(c.r, max(c.g, c.b));
+    float rq = clamp(br - curve.x, 0.0, curve.y);
+    rq = curve.z * rq * rq;
+    c *= max(rq, br - threshold) / max(br, 0.0001);
+    gl_FragColor = vec4(c, 0.0);
+  }
+`;
+
+// Four-tap blur at texelSize offsets, used to downsample the bloom chain.
+// With ACCUMULATE it upsamples instead, adding the blurred coarser level to
+// uBase, the level of the same size on the way down.
+export const bloomBlurShader = `
+  precision mediump float;
+  precision mediump sampler2D;
+  varying vec2 vL;
+  varying vec2 vR;
+  varying vec2 vT;
+  varying vec2 vB;
+  varying highp vec2 vUv;
+  uniform sampler2D uTexture;
+  #ifdef ACCUMULATE
+  uniform sampler2D uBase;
+  #endif
+
+  void main () {
+    vec4 sum = texture2D(uTexture, vL) + texture2D(uTexture, vR) + texture2D(uTexture, vT) + texture2D(uTexture, vB);
+    sum *= 0.25;
+  #ifdef ACCUMULATE
+    sum += texture2D(uBase, vUv);
+  #endif
+    gl_FragColor = sum;
+  }
+`;
+
+// Sunrays occlusion: alpha drops to 0.2 wherever there is dye
+export const sunraysMaskShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+
+  void main () {
+    vec4 c = texture2D(uTexture, vUv);
+    float br = max(c.r, max(c.g, c.b));
+    c.a = 1.0 - min(max(br * 20.0, 0.0), 0.8);
+    gl_FragColor = c;
+  }
+`;
+
+// Radial blur of the occlusion mask towards the centre. The result is
+// normalized so unshadowed areas are 1, then blended towards 1 by weight.
+export const sunraysShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform float weight;
+
+  #define ITERATIONS 16
+
+  void main () {
+    const float density = 0.3;
+    const float decay = 0.95;
+
+    vec2 coord = vUv;
+    vec2 dir = (vUv - 0.5) * density / float(ITERATIONS);
+    float illumination = 1.0;
+    float total = 1.0;
+    float light = texture2D(uTexture, vUv).a;
+
+    for (int i = 0; i < ITERATIONS; i++) {
+      coord -= dir;
+      light += texture2D(uTexture, coord).a * illumination;
+      total += illumination;
+      illumination *= decay;
+    }
+
+    gl_FragColor = vec4(mix(1.0, light / total, weight), 0.0, 0.0, 1.0);
+  }
+`;
+
+// Packs a field into 8-bit RGBA for snapshots. Dye is stored as
+// sqrt(value / scale), keeping precision in the faint edges the mask cuts
+// with. With VELOCITY each component maps -scale..scale onto 0-65534 (so zero
+// is exact), split over two bytes, which only survive nearest sampling.
+export const snapshotEncodeShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform float scale;
+
+  vec2 pack16 (float value) {
+    float v = floor(clamp(value, 0.0, 1.0) * 65534.0 + 0.5);
+    float high = floor(v / 256.0);
+    return vec2(high, v - high * 256.0) / 255.0;
+  }
+
+  void main () {
+    vec4 c = texture2D(uTexture, vUv);
+  #ifdef VELOCITY
+    vec2 v = c.xy / scale * 0.5 + 0.5;
+    gl_FragColor = vec4(pack16(v.x), pack16(v.y));
+  #else
+    gl_FragColor = vec4(sqrt(clamp(c.rgb / scale, 0.0, 1.0)), 1.0);
+  #endif
+  }
+`;
+
+// Inverse of snapshotEncodeShader, drawn into a field of any size
+export const snapshotDecodeShader = `
+  precision highp float;
+  precision highp sampler2D;
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform float scale;
+
+  float unpack16 (vec2 bytes) {
+    vec2 b = floor(bytes * 255.0 + 0.5);
+    return (b.x * 256.0 + b.y) / 65534.0;
+  }
+
+  void main () {
+    vec4 c = texture2D(uTexture, vUv);
+  #ifdef VELOCITY
+    vec2 v = vec2(unpack16(c.rg), unpack16(c.ba)) * 2.0 - 1.0;
+    gl_FragColor = vec4(v * scale, 0.0, 1.0);
+  #else
+    gl_FragColor = vec4(c.rgb * c.rgb * scale, 1.0);
+  #endif
+  }
+`;
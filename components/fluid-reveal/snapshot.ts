@@ -0,0 +1,114 @@
+import type { FluidFieldData, FluidFields } from "./FluidSolver";
+
+// Snapshots of the solver's dye and velocity, small enough for
+// sessionStorage: fields are quantized to bytes by FluidSolver.readFields(),
+// deflated where CompressionStream exists, and base64 encoded as JSON.
+
+export interface FluidSnapshotField {
+  width: number;
+  height: number;
+  /** Base64 of the packed bytes, deflated when the snapshot says so */
+  data: string;
+}
+
+export interface FluidSnapshot {
+  version: 1;
+  compression: "deflate" | "none";
+  dyeScale: number;
+  velocityScale: number;
+  dye: FluidSnapshotField;
+  velocity: FluidSnapshotField;
+}
+
+function supportsCompression(): boolean {
+  return typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked so String.fromCharCode never gets too many arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function encodeField(field: FluidFieldData, compress: boolean): Promise<FluidSnapshotField> {
+  const bytes = compress ? await transform(field.data, new CompressionStream("deflate")) : field.data;
+  return { width: field.width, height: field.height, data: toBase64(bytes) };
+}
+
+async function decodeField(field: FluidSnapshotField, compressed: boolean): Promise<FluidFieldData> {
+  const bytes = fromBase64(field.data);
+  const data = compressed ? await transform(bytes, new DecompressionStream("deflate")) : bytes;
+  if (data.length !== field.width * field.height * 4) {
+    throw new Error("Fluid snapshot field does not match its size");
+  }
+  return { width: field.width, height: field.height, data };
+}
+
+/** Compresses fields from FluidSolver.readFields() into a JSON-safe snapshot */
+export async function encodeSnapshot(fields: FluidFields): Promise<FluidSnapshot> {
+  const compress = supportsCompression();
+  const [dye, velocity] = await Promise.all([
+    encodeField(fields.dye, compress),
+    encodeField(fields.velocity, compress),
+  ]);
+  return {
+    version: 1,
+    compression: compress ? "deflate" : "none",
+    dyeScale: fields.dyeScale,
+    velocityScale: fields.velocityScale,
+    dye,
+    velocity,
+  };
+}
+
+/** Unpacks a snapshot for FluidSolver.writeFields(); throws on a malformed one */
+export async function decodeSnapshot(snapshot: FluidSnapshot): Promise<FluidFields> {
+  if (snapshot.version !== 1) {
+    throw new Error(`Unsupported fluid snapshot version: ${snapshot.version}`);
+  }
+  const compressed = snapshot.compression === "deflate";
+  const [dye, velocity] = await Promise.all([
+    decodeField(snapshot.dye, compressed),
+    decodeField(snapshot.velocity, compressed),
+  ]);
+  return { dye, velocity, dyeScale: snapshot.dyeScale, velocityScale: snapshot.velocityScale };
+}
+
+/** Stores a snapshot in sessionStorage; false when storage is full or blocked */
+export function saveSnapshot(key: string, snapshot: FluidSnapshot): boolean {
+  try {
+    sessionStorage.setItem(key, JSON.stringify(snapshot));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The snapshot saved under key, or null when there is none or it is unreadable */
+export function loadSnapshot(key: string): FluidSnapshot | null {
+  try {
+    const text = sessionStorage.getItem(key);
+    if (!text) return null;
+    const snapshot = JSON.parse(text) as FluidSnapshot;
+    return snapshot.version === 1 ? snapshot : null;
+  } catch {
+    return null;
+  }
+}
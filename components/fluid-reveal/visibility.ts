@@ -0,0 +1,47 @@
+import { RefObject, createContext, useContext, useEffect, useState } from "react";
+
+/**
+ * True while something on top hides the fluid completely, e.g. the
+ * ZoomTransition overlay at full opacity. IntersectionObserver cannot see
+ * that, so the covering component provides it.
+ */
+export const FluidCoverContext = createContext(false);
+
+/**
+ * Whether a fluid surface is worth rendering: the tab is visible, the element
+ * intersects the viewport and no FluidCoverContext provider reports it covered.
+ */
+export function useFluidVisibility(ref: RefObject<Element>): boolean {
+  const covered = useContext(FluidCoverContext);
+  const [pageVisible, setPageVisible] = useState(true);
+  const [onscreen, setOnscreen] = useState(true);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setPageVisible(!document.hidden);
+    handleVisibilityChange();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(([entry]) => setOnscreen(entry.isIntersecting));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return pageVisible && onscreen && !covered;
+}
+
+// Changes whenever next-themes switches the class on <html>, so overlays drawn
+// from CSS variables can be redrawn in the new palette
+export function useThemeVersion(): number {
+  const [version, setVersion] = useState(0);
+  useEffect(() => {
+    const observer = new MutationObserver(() => setVersion((v) => v + 1));
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ["class"] });
+    return () => observer.disconnect();
+  }, []);
+  return version;
+}
@@ -1,7 +1,8 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { gsap, ScrollTrigger } from "@/lib/gsap-config";
+import { FluidCoverContext } from "@/components/fluid-reveal";
 
 interface ZoomTransitionProps {
   children: React.ReactNode;
@@ -12,6 +13,8 @@ export function ZoomTransition({ children }: ZoomTransitionProps) {
   const heroWrapperRef = useRef<HTMLDivElement>(null);
   const overlayRef = useRef<HTMLDivElement>(null);
   const taglineRef = useRef<HTMLDivElement>(null);
+  // Once the overlay is opaque the hero is invisible, so fluid scenes can pause
+  const [covered, setCovered] = useState(false);
 
   useEffect(() => {
     const section = sectionRef.current;
@@ -39,6 +42,7 @@ export function ZoomTransition({ children }: ZoomTransitionProps) {
             if (overlay) {
               overlay.style.opacity = String(Math.min(self.progress * 2, 1));
             }
+            setCovered(self.progress >= 0.5);
           },
         },
       });
@@ -66,7 +70,9 @@ export function ZoomTransition({ children }: ZoomTransitionProps) {
         ref={heroWrapperRef} 
         className="absolute inset-0 z-10"
       >
-        {children}
+        <FluidCoverContext.Provider value={covered}>
+          {children}
+        </FluidCoverContext.Provider>
       </div>
 
       {/* Overlay that fades in to hide the hero (WebGL-friendly approach) */}